@@ -0,0 +1,108 @@
+import simpleDDP from "../simpleDDP";
+
+/**
+ * When reactive objects are notified about incoming data.
+ * false - after every message, 'microtask' - once all synchronously dispatched messages are applied,
+ * 'frame' - once per animation frame, 'ready' - when all started subscriptions are ready.
+ */
+export type DDPBatchMode = false | 'microtask' | 'frame' | 'ready';
+
+const FRAME_DURATION = 16;
+
+/**
+ * Groups notifications of reactive objects.
+ * @constructor
+ * @param {simpleDDP} ddplink - simpleDDP instance.
+ * @param {string|boolean} mode - Batch mode.
+ */
+
+export class ddpBatcher {
+  private _ddplink: simpleDDP<any, any>;
+  private _mode: DDPBatchMode;
+  // keyed by the notified object, so each object is notified once
+  private _pending = new Map<object, () => void>();
+  private _scheduled = false;
+
+  constructor(ddplink: simpleDDP<any, any>, mode: DDPBatchMode = false) {
+    this._ddplink = ddplink;
+    this._mode = mode;
+
+    if (mode == 'ready') {
+      const flushLater = () => {
+        // subscriptions mark themselves as ready in their own listeners of the same message
+        Promise.resolve().then(() => this._schedule());
+      };
+      ddplink.on('ready', flushLater);
+      ddplink.on('nosub', flushLater);
+      // nothing would be ready until the connection comes back
+      ddplink.on('disconnected', () => this.flush());
+    }
+  }
+
+  /**
+   * Runs the notification immediately or once per batch.
+   * @public
+   * @param {Object} key - Notified object, the last passed notification of the object runs.
+   * @param {Function} f - Notification.
+   */
+  defer(key: object, f: () => void) {
+    if (!this._mode) {
+      f();
+      return;
+    }
+    this._pending.set(key, f);
+    this._schedule();
+  }
+
+  /**
+   * Drops the pending notification of the object.
+   * @public
+   * @param {Object} key - Notified object.
+   */
+  cancel(key: object) {
+    this._pending.delete(key);
+  }
+
+  /**
+   * Runs all pending notifications.
+   * @public
+   */
+  flush() {
+    const pending = Array.from(this._pending.values());
+    this._pending.clear();
+    pending.forEach((f) => f());
+  }
+
+  /**
+   * Schedules the flush according to the batch mode.
+   * @private
+   */
+  _schedule() {
+    if (this._scheduled || !this._pending.size) return;
+    if (this._mode == 'ready' && this._waitingForReady()) return;
+
+    this._scheduled = true;
+    const run = () => {
+      this._scheduled = false;
+      this.flush();
+    };
+
+    if (this._mode == 'frame') {
+      if (typeof requestAnimationFrame === 'function') {
+        requestAnimationFrame(run);
+      } else {
+        setTimeout(run, FRAME_DURATION);
+      }
+    } else {
+      Promise.resolve().then(run);
+    }
+  }
+
+  /**
+   * Whether some started subscription is not ready yet.
+   * @private
+   */
+  _waitingForReady() {
+    return this._ddplink.subs.some((sub) => sub.isOn() && !sub.isReady());
+  }
+}
@@ -1,8 +1,11 @@
 import { fullCopy } from '../helpers/fullCopy.js';
+import { compileSelector, compileSort, compileProjection, DDPSelector, DDPSortSpecifier, DDPProjection } from '../helpers/selector.js';
 import { ddpOnChange } from './ddpOnChange.js';
+import { toAsyncIterator, toObservable, observableInterop, queue } from '../helpers/stream.js';
 import { ddpReactiveCollection } from './ddpReactiveCollection';
+import { ddpCursor, DDPCursorOptions } from './ddpCursor.js';
 import EJSON from "ejson";
-import simpleDDP from "../simpleDDP";
+import simpleDDP, { DDPChangeEvent, DDPDocument } from "../simpleDDP";
 
 /**
  * DDP collection class.
@@ -11,14 +14,41 @@ import simpleDDP from "../simpleDDP";
  * @param {simpleDDP} server - simpleDDP instance.
  */
 
+export type DDPFilter<T> = boolean | ((value: T, index: number, array: T[]) => any) | DDPSelector | string;
+
+export type DDPSort<T> = false | ((a: T, b: T) => number) | DDPSortSpecifier;
+
+/**
+ * Turns a filter function or a Mongo-style selector into a filter function.
+ * @private
+ */
+export function toFilterFunction<T>(f: DDPFilter<T> | undefined): false | ((value: T, index: number, array: T[]) => any) {
+  if (typeof f === 'function') return f as (value: T, index: number, array: T[]) => any;
+  if (typeof f === 'string' || (typeof f === 'object' && f !== null)) {
+    const predicate = compileSelector(f);
+    return (value: T) => predicate(value);
+  }
+  return false;
+}
+
+/**
+ * Turns a comparator function or a Mongo-style sort specifier into a comparator function.
+ * @private
+ */
+export function toSortFunction<T>(sort: DDPSort<T> | boolean | undefined): false | ((a: T, b: T) => number) {
+  if (typeof sort === 'function') return sort;
+  if (typeof sort === 'object' && sort !== null) return compileSort(sort);
+  return false;
+}
+
 export class ddpCollection<T> {
 
-  private _filter: boolean | ((value: T, index: number, array: T[]) => any) = false;
+  private _filter: false | ((value: DDPDocument<T>, index: number, array: DDPDocument<T>[]) => any) = false;
   private _name: string;
-  private _server: any;
+  private _server: simpleDDP<any, any>;
   private ddpConnection: any;
 
-  constructor(name: string, server: simpleDDP) {
+  constructor(name: string, server: simpleDDP<any, any>) {
     this._name = name;
     this._server = server;
   }
@@ -27,11 +57,14 @@ export class ddpCollection<T> {
    * Allows to specify specific documents inside the collection for reactive data and fetching.
    * Important: if you change filter function it won't change for the already created reactive objects.
    * @public
-   * @param {Function} f - Filter function, recieves as arguments object, index and array.
+   * @param {Function|Object|string} f - Filter function, recieves as arguments object, index and array.
+   * Also can be a Mongo-style selector, e.g. `{age: {$gte: 18}}`, or a document id.
    * @return {this}
+   * @example
+   * server.collection('tasks').filter({done: false, 'owner.name': {$in: ['Ann', 'Bob']}}).fetch();
    */
-  filter<S extends any>(f: boolean | ((value: T, index: number, array: T[]) => S) = false) {
-    this._filter = f;
+  filter(f: DDPFilter<DDPDocument<T>> = false) {
+    this._filter = toFilterFunction(f);
     return this;
   }
 
@@ -75,40 +108,94 @@ export class ddpCollection<T> {
   }
 
   /**
-   * Returns collection data based on filter and on passed settings. Supports skip, limit and sort.
+   * Returns collection data based on filter and on passed settings. Supports filter, skip, limit and sort.
    * Order is 'filter' then 'sort' then 'skip' then 'limit'.
    * @public
    * @param {Object} [settings={skip:0,limit:Infinity,sort:null}] - Skip and limit are numbers or Infinity,
-   * sort is a standard js array sort function.
+   * sort is a standard js array sort function or a Mongo-style sort specifier, e.g. `{createdAt: -1}`.
+   * Filter is a filter function or a Mongo-style selector which is applied together with the collection filter.
+   * Fields is a Mongo-style projection, e.g. `{title: 1, 'author.name': 1}` or `{body: 0}`, filter and sort still see all fields.
    * @return {Object}
    */
-  fetch(settings?: { skip?: number; limit?: number; sort?: ((a: T, b: T) => number) | boolean }) {
-    let skip, limit, sort;
+  fetch(settings?: { skip?: number; limit?: number; sort?: DDPSort<DDPDocument<T>> | boolean; filter?: DDPFilter<DDPDocument<T>>; fields?: DDPProjection }) {
+    let skip, limit, sort, filter, fields;
 
     if (settings) {
       skip = settings.skip;
       limit = settings.limit;
-      sort = settings.sort;
+      sort = toSortFunction(settings.sort);
+      filter = toFilterFunction(settings.filter);
+      fields = settings.fields;
     }
 
     let c = this._server.collections[this._name];
-    let collectionCopy = c ? fullCopy(c) : [];
+    let collectionCopy: DDPDocument<T>[] = c ? fullCopy(c) : [];
     if (this._filter) collectionCopy = collectionCopy.filter(this._filter);
+    if (filter) collectionCopy = collectionCopy.filter(filter);
     if (sort) collectionCopy.sort(sort);
     if (typeof skip === 'number') collectionCopy.splice(0, skip);
     if (typeof limit === 'number' || limit == Infinity) collectionCopy.splice(limit);
-    return collectionCopy as T[];
+    if (fields) collectionCopy = collectionCopy.map(compileProjection(fields));
+    return collectionCopy;
   }
 
   /**
    * Returns reactive collection object.
    * @see ddpReactiveCollection
    * @public
-   * @param {Object} [settings={skip:0,limit:Infinity,sort:null}]
+   * @param {Object} [settings={skip:0,limit:Infinity,sort:null}] - Sort can be a Mongo-style sort specifier.
+   * Filter is a filter function or a Mongo-style selector which is applied together with the collection filter.
+   * Fields is a Mongo-style projection, changes of other fields do not notify the reactive collection.
    * @return {ddpReactiveCollection}
    */
-  reactive(settings: { skip?: number | undefined; limit?: number | undefined; sort?: false | ((a: T, b: T) => number) | undefined; } | undefined) {
-    return new ddpReactiveCollection<T>(this, settings, this._filter);
+  reactive(settings?: { skip?: number; limit?: number; sort?: DDPSort<DDPDocument<T>>; filter?: DDPFilter<DDPDocument<T>>; fields?: DDPProjection }) {
+    const collectionFilter = this._filter;
+    const filter = toFilterFunction(settings && settings.filter);
+    let reactiveFilter = collectionFilter;
+    if (collectionFilter && filter) {
+      reactiveFilter = (value: DDPDocument<T>, index: number, array: DDPDocument<T>[]) => collectionFilter(value, index, array) && filter(value, index, array);
+    } else if (filter) {
+      reactiveFilter = filter;
+    }
+    return new ddpReactiveCollection<T>(this, settings, reactiveFilter);
+  }
+
+  /**
+   * Returns a Meteor-like cursor of the documents which match the selector and the collection filter.
+   * @see ddpCursor
+   * @public
+   * @param {Object|string|Function} [selector] - Mongo-style selector, document id or filter function.
+   * @param {Object} [options] - `{sort, skip, limit, fields}`, sort can be a Mongo-style sort specifier.
+   * @return {ddpCursor}
+   * @example
+   * const handle = server.collection('tasks').find({listId}, {sort: {createdAt: 1}}).observe({
+   *   addedAt: (task, index) => list.insert(index, task),
+   *   changedAt: (task, oldTask, index) => list.update(index, task),
+   *   removedAt: (task, index) => list.remove(index),
+   *   movedTo: (task, from, to) => list.move(from, to)
+   * });
+   */
+  find(selector?: DDPFilter<DDPDocument<T>>, options?: DDPCursorOptions<DDPDocument<T>>) {
+    return new ddpCursor<T>(this, selector, options);
+  }
+
+  /**
+   * Runs the notification of a reactive object once per batch of incoming data, see `batch` option of simpleDDP.
+   * @private
+   * @param {Object} key - Notified object.
+   * @param {Function} f - Notification.
+   */
+  _batch(key: object, f: () => void) {
+    this._server._batch(key, f);
+  }
+
+  /**
+   * Drops the pending notification of a reactive object.
+   * @private
+   * @param {Object} key - Notified object.
+   */
+  _cancelBatch(key: object) {
+    this._server._cancelBatch(key);
   }
 
   /**
@@ -116,20 +203,43 @@ export class ddpCollection<T> {
    * @see ddpOnChange
    * @public
    * @param {Function} f
-   * @param {Function} filter
+   * @param {Function|Object} filter - Filter function or a Mongo-style selector.
    * @return {ddpOnChange}
    */
-  onChange(f: <P extends { _id: string } & T, N extends { _id: string } & T, PP extends any[]>(args: { prev?: P, next?: N, predicatePassed: PP }) => any, filter?: typeof this._filter) {
-    let obj = {
+  onChange(f: (event: DDPChangeEvent<DDPDocument<T>>) => any, filter?: DDPFilter<DDPDocument<T>>) {
+    let obj: { collection: string, f: typeof f, filter?: (value: DDPDocument<T>, index: number, array: DDPDocument<T>[]) => any } = {
       collection: this._name,
-      f: f,
-      filter
+      f: f
     };
 
     if (this._filter) obj.filter = this._filter;
-    if (filter) obj.filter = filter;
+    const filterFunction = toFilterFunction(filter);
+    if (filterFunction) obj.filter = filterFunction;
+
+    const server = this._server as unknown as { [x: string]: any[] };
+    return ddpOnChange(obj, server);
+  }
 
-    return ddpOnChange(obj, this._server);
+  /**
+   * Iterates change events of the collection (and its filter) with `for await`, like @see onChange receives them.
+   * Events which come while the consumer is busy are queued. Leaving the loop stops the listener.
+   * @public
+   * @example
+   * for await (const {prev, next} of server.collection('tasks').filter({done: false})) sync(prev, next);
+   */
+  [Symbol.asyncIterator]() {
+    return toAsyncIterator<DDPChangeEvent<DDPDocument<T>>>((push) => this.onChange(push), undefined, queue);
+  }
+
+  /**
+   * Observable of change events of the collection (and its filter), also available with `Symbol.observable`.
+   * @public
+   * @return {Object} - Observable.
+   */
+  '@@observable'() {
+    return toObservable<DDPChangeEvent<DDPDocument<T>>>((push) => this.onChange(push));
   }
 
 }
+
+observableInterop(ddpCollection.prototype);
@@ -0,0 +1,243 @@
+import { ddpCollection, DDPFilter, DDPSort } from './ddpCollection.js';
+import { ddpReactiveCollection, DDPCollectionChanges } from './ddpReactiveCollection.js';
+import { DDPProjection } from '../helpers/selector.js';
+import { fullCopy } from '../helpers/fullCopy.js';
+import { DDPDocument } from "../simpleDDP";
+
+export type DDPCursorOptions<D> = {
+  sort?: DDPSort<D>;
+  skip?: number;
+  limit?: number;
+  fields?: DDPProjection;
+};
+
+/**
+ * Callbacks of @see ddpCursor.observe, the same as in Meteor.
+ * When both plain and `At` versions of a callback are passed only the `At` version runs.
+ */
+export type DDPObserveCallbacks<D> = {
+  added?: (doc: D) => void;
+  addedAt?: (doc: D, atIndex: number, before: string | null) => void;
+  changed?: (newDoc: D, oldDoc: D) => void;
+  changedAt?: (newDoc: D, oldDoc: D, atIndex: number) => void;
+  removed?: (oldDoc: D) => void;
+  removedAt?: (oldDoc: D, atIndex: number) => void;
+  movedTo?: (doc: D, fromIndex: number, toIndex: number, before: string | null) => void;
+};
+
+/**
+ * Callbacks of @see ddpCursor.observeChanges, the same as in Meteor. `fields` do not contain `_id`,
+ * removed fields are undefined in `changed`.
+ */
+export type DDPObserveChangesCallbacks<D> = {
+  added?: (id: string, fields: Omit<D, '_id'>) => void;
+  addedBefore?: (id: string, fields: Omit<D, '_id'>, before: string | null) => void;
+  changed?: (id: string, fields: Partial<D>) => void;
+  movedBefore?: (id: string, before: string | null) => void;
+  removed?: (id: string) => void;
+};
+
+// sequential changes of the observed list, indexes are positions right before the change
+type ListStep<D> =
+  { type: 'removed'; doc: D; index: number } |
+  { type: 'moved'; doc: D; from: number; to: number; before: string | null } |
+  { type: 'added'; doc: D; index: number; before: string | null } |
+  { type: 'changed'; doc: D; prev: D; fields: Partial<D>; index: number };
+
+/**
+ * Meteor-like cursor of the documents which match the selector. The selector is applied together with the collection filter.
+ * @constructor
+ * @param {ddpCollection} collection - Instance of @see ddpCollection class.
+ * @param {Object|string|Function} [selector] - Mongo-style selector, document id or filter function.
+ * @param {Object} [options] - `{sort, skip, limit, fields}`.
+ */
+
+export class ddpCursor<T> {
+  private _collection: ddpCollection<T>;
+  private _selector: DDPFilter<DDPDocument<T>> | undefined;
+  private _options: DDPCursorOptions<DDPDocument<T>>;
+
+  constructor(collection: ddpCollection<T>, selector?: DDPFilter<DDPDocument<T>>, options: DDPCursorOptions<DDPDocument<T>> = {}) {
+    this._collection = collection;
+    this._selector = selector;
+    this._options = options;
+  }
+
+  /**
+   * Returns matching documents.
+   * @public
+   * @return {Array}
+   */
+  fetch() {
+    const { sort, skip, limit, fields } = this._options;
+    return this._collection.fetch({ filter: this._selector, sort, skip, limit, fields });
+  }
+
+  /**
+   * Returns the number of matching documents.
+   * @public
+   * @param {boolean} [applySkipLimit=true] - Count only documents within skip and limit.
+   * @return {number}
+   */
+  count(applySkipLimit = true) {
+    if (applySkipLimit) return this.fetch().length;
+    return this._collection.fetch({ filter: this._selector }).length;
+  }
+
+  /**
+   * Calls the function for every matching document.
+   * @public
+   * @param {Function} f - Receives the document, its index and the cursor.
+   * @param {*} [thisArg] - `this` of the function.
+   */
+  forEach(f: (doc: DDPDocument<T>, index: number, cursor: this) => void, thisArg?: any) {
+    this.fetch().forEach((doc, i) => f.call(thisArg, doc, i, this));
+  }
+
+  /**
+   * Maps matching documents.
+   * @public
+   * @param {Function} f - Receives the document, its index and the cursor.
+   * @param {*} [thisArg] - `this` of the function.
+   * @return {Array}
+   */
+  map<R>(f: (doc: DDPDocument<T>, index: number, cursor: this) => R, thisArg?: any) {
+    return this.fetch().map((doc, i) => f.call(thisArg, doc, i, this));
+  }
+
+  /**
+   * Watches matching documents. Before it returns, `added` or `addedAt` runs for every document which matches already.
+   * Then callbacks run in order, every index is the position in the list right before the callback.
+   * @public
+   * @param {Object} callbacks - `{added, addedAt, changed, changedAt, removed, removedAt, movedTo}`.
+   * @return {Object} - `{stop}`.
+   */
+  observe(callbacks: DDPObserveCallbacks<DDPDocument<T>>) {
+    return this._observe((step) => {
+      switch (step.type) {
+        case 'added':
+          if (callbacks.addedAt) {
+            callbacks.addedAt(fullCopy(step.doc), step.index, step.before);
+          } else if (callbacks.added) {
+            callbacks.added(fullCopy(step.doc));
+          }
+          break;
+        case 'changed':
+          if (callbacks.changedAt) {
+            callbacks.changedAt(fullCopy(step.doc), fullCopy(step.prev), step.index);
+          } else if (callbacks.changed) {
+            callbacks.changed(fullCopy(step.doc), fullCopy(step.prev));
+          }
+          break;
+        case 'removed':
+          if (callbacks.removedAt) {
+            callbacks.removedAt(fullCopy(step.doc), step.index);
+          } else if (callbacks.removed) {
+            callbacks.removed(fullCopy(step.doc));
+          }
+          break;
+        case 'moved':
+          if (callbacks.movedTo) callbacks.movedTo(fullCopy(step.doc), step.from, step.to, step.before);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Watches changes of matching documents. Before it returns, `added` or `addedBefore` runs for every document which matches already.
+   * @public
+   * @param {Object} callbacks - `{added, addedBefore, changed, movedBefore, removed}`.
+   * @return {Object} - `{stop}`.
+   */
+  observeChanges(callbacks: DDPObserveChangesCallbacks<DDPDocument<T>>) {
+    const withoutId = (doc: DDPDocument<T>) => {
+      const { _id, ...fields } = fullCopy(doc);
+      return fields;
+    };
+    return this._observe((step) => {
+      switch (step.type) {
+        case 'added':
+          if (callbacks.addedBefore) {
+            callbacks.addedBefore(step.doc._id, withoutId(step.doc), step.before);
+          } else if (callbacks.added) {
+            callbacks.added(step.doc._id, withoutId(step.doc));
+          }
+          break;
+        case 'changed':
+          if (callbacks.changed) callbacks.changed(step.doc._id, fullCopy(step.fields));
+          break;
+        case 'removed':
+          if (callbacks.removed) callbacks.removed(step.doc._id);
+          break;
+        case 'moved':
+          if (callbacks.movedBefore) callbacks.movedBefore(step.doc._id, step.before);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Runs the function for the initial documents and then for every change of the list, one change at a time.
+   * @private
+   */
+  _observe(f: (step: ListStep<DDPDocument<T>>) => void) {
+    const { sort, skip, limit, fields } = this._options;
+    const reactive: ddpReactiveCollection<T> = this._collection.reactive({ filter: this._selector, sort, skip, limit, fields });
+    // the list as the callbacks know it
+    const list = reactive.data().slice();
+    list.forEach((doc, index) => f({ type: 'added', doc, index, before: null }));
+
+    const listener = reactive.onChange((data, summary, changes) => {
+      ddpCursor._steps(list, data, changes).forEach(f);
+    }, { changes: true });
+
+    return {
+      stop: () => {
+        listener.stop();
+        reactive.stop();
+      }
+    };
+  }
+
+  /**
+   * Turns the difference between two versions of the list into changes applied one after another.
+   * Removes documents, moves the documents which have to move, adds new ones, then reports changed fields.
+   * Mutates the list to the new version.
+   * @private
+   */
+  static _steps<D extends { _id: string }>(list: D[], data: D[], changes: DDPCollectionChanges<D>) {
+    const steps: ListStep<D>[] = [];
+    const beforeOf = (i: number) => i + 1 < list.length ? list[i + 1]._id : null;
+
+    changes.removed.slice().sort((a, b) => b.index - a.index).forEach(({ doc, index }) => {
+      list.splice(index, 1);
+      steps.push({ type: 'removed', doc, index });
+    });
+
+    // documents which stay, in the new order
+    const added = new Set(changes.added.map(({ doc }) => doc._id));
+    const kept = data.filter((doc) => !added.has(doc._id));
+    const moved = new Set(changes.moved.map(({ id }) => id));
+    kept.forEach((doc, i) => {
+      if (!moved.has(doc._id)) return;
+      const from = list.findIndex((el) => el._id === doc._id);
+      const [el] = list.splice(from, 1);
+      // right after the document which precedes it in the new order
+      const to = i == 0 ? 0 : list.findIndex((other) => other._id === kept[i - 1]._id) + 1;
+      list.splice(to, 0, el);
+      steps.push({ type: 'moved', doc: el, from, to, before: beforeOf(to) });
+    });
+
+    changes.added.slice().sort((a, b) => a.index - b.index).forEach(({ doc, index }) => {
+      list.splice(index, 0, doc);
+      steps.push({ type: 'added', doc, index, before: beforeOf(index) });
+    });
+
+    changes.changed.forEach(({ doc, fields, newIndex }) => {
+      steps.push({ type: 'changed', doc, prev: list[newIndex], fields, index: newIndex });
+      list[newIndex] = doc;
+    });
+
+    return steps;
+  }
+}
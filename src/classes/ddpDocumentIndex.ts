@@ -0,0 +1,130 @@
+// ids are compared with `==` like in the rest of simpleDDP, so 0 and '0' are the same id
+function idKey(id: any) {
+  return typeof id === 'number' ? String(id) : id;
+}
+
+/**
+ * Index of documents by `_id` over an array of documents. The array itself stays the ordered view.
+ * Insertions and removals in the middle of the array are logged instead of reindexing all the documents after them,
+ * a position is corrected by the log on lookup and the log is compacted when it grows.
+ * @constructor
+ * @param {Array} docs - Array of documents to index. Must be changed only through the index.
+ */
+
+export class ddpDocumentIndex<D extends { _id: any }> {
+  private _docs: D[] = [];
+  // position of the document after `op` operations of the log
+  private _positions = new Map<any, { i: number, op: number }>();
+  // [position, 1] for insertions, [position, -1] for removals
+  private _ops: [number, number][] = [];
+  private _length = 0;
+
+  constructor(docs: D[]) {
+    this.reset(docs);
+  }
+
+  /**
+   * Rebuilds the index.
+   * @public
+   * @param {Array} [docs] - New array of documents to index.
+   */
+  reset(docs: D[] = this._docs) {
+    this._docs = docs;
+    this._positions.clear();
+    this._ops = [];
+    this._length = docs.length;
+    docs.forEach((doc, i) => {
+      this._positions.set(idKey(doc._id), { i, op: 0 });
+    });
+  }
+
+  /**
+   * Returns the position of the document.
+   * @public
+   * @param {*} id - Document id.
+   * @return {number} - Position or -1.
+   */
+  indexOf(id: any) {
+    // the array was changed bypassing the index
+    if (this._docs.length !== this._length) this.reset();
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const p = this._positions.get(idKey(id));
+      if (!p) return -1;
+      let i = p.i;
+      for (let k = p.op; k < this._ops.length; k++) {
+        const [pos, delta] = this._ops[k];
+        if (delta > 0 ? pos <= i : pos < i) i += delta;
+      }
+      p.i = i;
+      p.op = this._ops.length;
+      if (this._docs[i] && this._docs[i]._id == id) return i;
+      this.reset();
+    }
+    return -1;
+  }
+
+  /**
+   * Adds the document to the end of the array.
+   * @public
+   * @param {Object} doc - New document.
+   * @return {number} - Position of the document.
+   */
+  push(doc: D) {
+    const i = this._docs.push(doc) - 1;
+    this._length = this._docs.length;
+    this._positions.set(idKey(doc._id), { i, op: this._ops.length });
+    return i;
+  }
+
+  /**
+   * Inserts the document at the position.
+   * @public
+   * @param {number} i - Position.
+   * @param {Object} doc - New document.
+   */
+  insert(i: number, doc: D) {
+    if (i >= this._docs.length) {
+      this.push(doc);
+      return;
+    }
+    this._docs.splice(i, 0, doc);
+    this._length = this._docs.length;
+    this._log(i, 1);
+    this._positions.set(idKey(doc._id), { i, op: this._ops.length });
+  }
+
+  /**
+   * Replaces the document at the position by another version of it.
+   * @public
+   * @param {number} i - Position.
+   * @param {Object} doc - New version of the document.
+   */
+  replace(i: number, doc: D) {
+    this._docs[i] = doc;
+  }
+
+  /**
+   * Removes the document at the position.
+   * @public
+   * @param {number} i - Position.
+   * @return {Object} - Removed document.
+   */
+  remove(i: number) {
+    const removed = this._docs.splice(i, 1)[0];
+    this._length = this._docs.length;
+    if (removed) {
+      this._positions.delete(idKey(removed._id));
+      if (i < this._docs.length) this._log(i, -1);
+    }
+    return removed;
+  }
+
+  /**
+   * Logs the operation, compacts the log when correcting positions costs more than reindexing.
+   * @private
+   */
+  _log(i: number, delta: number) {
+    this._ops.push([i, delta]);
+    if (this._ops.length > Math.max(32, Math.sqrt(this._docs.length))) this.reset();
+  }
+}
@@ -4,9 +4,11 @@
  * @param {Function} f - Function to run when event is fired.
  * @param {simpleDDP} ddplink - simpleDDP instance.
  */
-import simpleDDP, { DDPMessage } from "../simpleDDP";
+import simpleDDP from "../simpleDDP";
 
-export function ddpEventListener(eventname: string, f: (message: DDPMessage, id: string) => void, ddplink: simpleDDP) {
+export type DDPEventListener = { start: () => void; stop: () => void };
+
+export function ddpEventListener(eventname: string, f: (message: any, id: string) => void, ddplink: simpleDDP<any, any>): DDPEventListener {
   let _started = false
   const start = () => {
     if (!_started) {
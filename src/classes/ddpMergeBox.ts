@@ -0,0 +1,126 @@
+import EJSON from "ejson";
+
+// fields sent by one `added` message and the following changes of them
+type DDPMergeSource = { [field: string]: any };
+
+/**
+ * Result of the removal of the document by one of publications.
+ * @private
+ */
+export type DDPMergeRemoval = {
+  // how many publications still hold the document
+  held: number;
+  // fields which get values of the remaining publications
+  fields: { [field: string]: any };
+  // fields which no remaining publication holds
+  cleared: string[];
+};
+
+/**
+ * Client side merge box. Remembers which fields every publication of a document sent,
+ * so overlapping publications do not remove documents or fields from each other.
+ * DDP messages do not name the publication, so every `added` message is a publication of its own
+ * and a `removed` message takes back the latest one.
+ * @constructor
+ */
+
+export class ddpMergeBox {
+  private _documents: { [collection: string]: Map<any, DDPMergeSource[]> } = {};
+
+  /**
+   * Returns the map of document publications for the collection.
+   * @private
+   * @param {string} collection - Collection name.
+   * @return {Map}
+   */
+  _collection(collection: PropertyKey) {
+    const name = String(collection);
+    if (!this._documents.hasOwnProperty(name)) this._documents[name] = new Map();
+    return this._documents[name];
+  }
+
+  /**
+   * Registers one more publication of the document.
+   * @public
+   * @param {string} collection - Collection name.
+   * @param {string} id - Document id.
+   * @param {Object} [fields] - Fields sent by the publication.
+   * @return {number} - How many times the document was published before.
+   */
+  added(collection: PropertyKey, id: any, fields?: { [field: string]: any }) {
+    const documents = this._collection(collection);
+    const sources = documents.get(id) || [];
+    sources.push(Object.assign({}, fields));
+    documents.set(id, sources);
+    return sources.length - 1;
+  }
+
+  /**
+   * Registers changed fields of the document. A field goes to every publication which holds it,
+   * a new field goes to the latest publication. Cleared fields are removed from every publication.
+   * @public
+   * @param {string} collection - Collection name.
+   * @param {string} id - Document id.
+   * @param {Object} [fields] - New values of fields.
+   * @param {Array} [cleared] - Names of removed fields.
+   */
+  changed(collection: PropertyKey, id: any, fields?: { [field: string]: any }, cleared?: string[]) {
+    const sources = this._collection(collection).get(id);
+    if (!sources) return;
+    if (fields) {
+      Object.keys(fields).forEach((field) => {
+        const holders = sources.filter((source) => source.hasOwnProperty(field));
+        (holders.length ? holders : [sources[sources.length - 1]]).forEach((source) => {
+          source[field] = fields[field];
+        });
+      });
+    }
+    if (cleared) {
+      cleared.forEach((field) => {
+        sources.forEach((source) => {
+          delete source[field];
+        });
+      });
+    }
+  }
+
+  /**
+   * Registers removal of the document by one of publications.
+   * @public
+   * @param {string} collection - Collection name.
+   * @param {string} id - Document id.
+   * @return {Object} - `{held, fields, cleared}`, see @see DDPMergeRemoval.
+   */
+  removed(collection: PropertyKey, id: any): DDPMergeRemoval {
+    const documents = this._collection(collection);
+    const sources = documents.get(id) || [];
+    const source = sources.pop();
+    const removal: DDPMergeRemoval = { held: sources.length, fields: {}, cleared: [] };
+    if (!sources.length) {
+      documents.delete(id);
+      return removal;
+    }
+    if (source) {
+      Object.keys(source).forEach((field) => {
+        // the latest publication which holds the field gives its value, like in `added`
+        const holders = sources.filter((other) => other.hasOwnProperty(field));
+        if (!holders.length) {
+          removal.cleared.push(field);
+        } else {
+          const value = holders[holders.length - 1][field];
+          if (!EJSON.equals(value, source[field])) removal.fields[field] = value;
+        }
+      });
+    }
+    return removal;
+  }
+
+  /**
+   * Forgets every publication. Documents are still stored, but the next `added` message replaces them
+   * and the next `removed` message removes them. Used when a new DDP session starts.
+   * @public
+   */
+  reset() {
+    this._documents = {};
+  }
+}
@@ -6,7 +6,7 @@
  * @param {simpleDDP} [listenersArray = 'onChangeFuncs'] - Property name of event handler instance, array of listeners.
  */
 
-export function ddpOnChange<T extends { [x: string]: any[] }>(obj: {}, inst: T, listenersArray: any = 'onChangeFuncs') {
+export function ddpOnChange<T extends { [x: string]: any[] }>(obj: {}, inst: T, listenersArray: string = 'onChangeFuncs') {
   let _isStopped = true
   const start = () => {
     if (_isStopped) {
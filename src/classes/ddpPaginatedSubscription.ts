@@ -0,0 +1,261 @@
+import simpleDDP, { DDPDocument } from "../simpleDDP";
+import { ddpSubscriptionHandle } from './ddpSubscriptionHandle.js';
+import { ddpReactiveCollection } from './ddpReactiveCollection.js';
+import { ddpOnChange } from './ddpOnChange.js';
+import { DDPFilter, DDPSort } from './ddpCollection.js';
+import { SubscriptionError } from '../errors.js';
+
+/**
+ * Window of documents requested from the server.
+ */
+export type DDPPage = {
+  // number of the first loaded page, starts with 0
+  page: number;
+  skip: number;
+  limit: number;
+};
+
+export type SimpleDDPPaginateOptions<T> = {
+  // collection the publication writes to, the publication name by default
+  collection?: string;
+  pageSize?: number;
+  page?: number;
+  // subscription arguments for the window, `[{skip, limit}]` by default
+  args?: (page: DDPPage) => any[];
+  sort?: DDPSort<DDPDocument<T>>;
+  filter?: DDPFilter<DDPDocument<T>>;
+};
+
+/**
+ * Pages of a publication which does skip and limit on the server.
+ * The shown data stays the same while the next page loads and changes at once when it is loaded.
+ * @constructor
+ * @param {simpleDDP} ddplink - simpleDDP instance.
+ * @param {string} pubname - Publication name.
+ * @param {Object} [options] - `{collection, pageSize=20, page=0, args, sort, filter}`.
+ */
+
+export class ddpPaginatedSubscription<T> {
+  private _ddplink: simpleDDP<any, any>;
+  private _args: (page: DDPPage) => any[];
+  private _page: number;
+  private _pages = 1;
+  // page and number of pages of the shown data
+  private _shownPage: number;
+  private _shownPages = 1;
+  private _shown: ddpSubscriptionHandle;
+  private _frozen: DDPDocument<T>[] | null = null;
+  private _loading = true;
+  private _tickers: ((data: DDPDocument<T>[]) => void)[] = [];
+  private _changeHandler: { start: () => void; stop: () => void };
+  readonly pubname: string;
+  readonly pageSize: number;
+  /**
+   All loaded documents of the publication, `data` shows them unless the next page is loading.
+
+   @type ddpReactiveCollection
+   */
+  readonly collection: ddpReactiveCollection<T>;
+  /**
+   Subscription of the requested page, it replaces the shown one when it is ready.
+
+   @type ddpSubscriptionHandle
+   */
+  subscription: ddpSubscriptionHandle;
+  /**
+   Error of the last failed page or null.
+
+   @type SubscriptionError
+   */
+  lastError: SubscriptionError | null = null;
+
+  constructor(ddplink: simpleDDP<any, any>, pubname: string, options: SimpleDDPPaginateOptions<T> = {}) {
+    this._ddplink = ddplink;
+    this.pubname = pubname;
+    this.pageSize = options.pageSize || 20;
+    this._args = options.args || (({ skip, limit }) => [{ skip, limit }]);
+    this._page = this._shownPage = options.page || 0;
+    this.collection = ddplink.collection<T>(options.collection || pubname).reactive({ sort: options.sort, filter: options.filter });
+    this._changeHandler = this.collection.onChange(() => {
+      if (!this._frozen) this._notify();
+    });
+    this.subscription = this._shown = ddplink.sub(pubname, this._args(this._window()));
+    this._wait(this.subscription).catch(() => {
+    });
+  }
+
+  /**
+   * Number of the first requested page, starts with 0.
+   * @public
+   * @type number
+   */
+  get page() {
+    return this._page;
+  }
+
+  /**
+   * True while the requested page is loading.
+   * @public
+   * @type boolean
+   */
+  get loading() {
+    return this._loading;
+  }
+
+  /**
+   * True if the server filled the whole shown window, i.e. there may be more documents after it.
+   * @public
+   * @type boolean
+   */
+  get hasMore() {
+    return this.data().length >= this._shownPages * this.pageSize;
+  }
+
+  /**
+   * Shown documents. While the next page loads these are the documents of the previous page.
+   * @public
+   * @return {Array}
+   */
+  data() {
+    return this._frozen || this.collection.data();
+  }
+
+  /**
+   * Runs every time the shown documents or the loading state change.
+   * @public
+   * @param {Function} f - Receives the shown documents.
+   * @return {ddpOnChange}
+   */
+  onChange(f: (data: DDPDocument<T>[]) => void) {
+    const self = this as unknown as { [x: string]: any[] };
+    return ddpOnChange(f, self, '_tickers');
+  }
+
+  /**
+   * Returns a promise which resolves when the requested page is shown.
+   * @public
+   * @return {Promise}
+   */
+  ready() {
+    return this.subscription.ready();
+  }
+
+  /**
+   * Shows the next page instead of the loaded ones.
+   * @public
+   * @return {Promise} - Resolves when the page is shown, rejects with `SubscriptionError` and keeps the previous page if it fails.
+   */
+  nextPage() {
+    return this._load(this._page + this._pages, 1);
+  }
+
+  /**
+   * Shows the previous page instead of the loaded ones.
+   * @public
+   * @return {Promise} - Resolves when the page is shown, rejects like @see nextPage.
+   */
+  prevPage() {
+    return this._load(Math.max(this._page - 1, 0), 1);
+  }
+
+  /**
+   * Adds the next page to the loaded ones, e.g. for infinite scroll.
+   * @public
+   * @return {Promise} - Resolves when the page is shown, rejects like @see nextPage.
+   */
+  loadMore() {
+    return this._load(this._page, this._pages + 1);
+  }
+
+  /**
+   * Stops the subscriptions and the reactive collection.
+   * @public
+   */
+  stop() {
+    this._changeHandler.stop();
+    this.collection.stop();
+    if (this.subscription !== this._shown) this.subscription.stop();
+    this._shown.stop();
+  }
+
+  /**
+   * Requested window of documents.
+   * @private
+   */
+  _window(): DDPPage {
+    return { page: this._page, skip: this._page * this.pageSize, limit: this._pages * this.pageSize };
+  }
+
+  /**
+   * Subscribes to the window, shows it when it is ready and the previous one is gone.
+   * @private
+   */
+  _load(page: number, pages: number) {
+    if (page == this._page && pages == this._pages) return this.ready();
+    const previous = this.subscription;
+    // a page which did not load yet is replaced
+    if (previous !== this._shown) previous.stop();
+    if (!this._frozen) this._frozen = this.collection.data().slice();
+    this._page = page;
+    this._pages = pages;
+    this.subscription = this._ddplink.sub(this.pubname, this._args(this._window()));
+    return this._wait(this.subscription);
+  }
+
+  /**
+   * Waits for the requested subscription, then stops the shown one and waits until its documents are removed.
+   * @private
+   */
+  _wait(next: ddpSubscriptionHandle) {
+    this._setLoading(true);
+    return next.ready().then(() => {
+      if (this.subscription !== next) return;
+      const shown = this._shown;
+      this._shown = next;
+      this._shownPage = this._page;
+      this._shownPages = this._pages;
+      this.lastError = null;
+      if (shown === next) return;
+      const old = shown.subscription;
+      shown.remove();
+      // the server removes documents of the stopped subscription before its `nosub`
+      if (!old.isOn() && this._ddplink.connected) return old.nosub().catch(() => {
+      });
+    }).then(() => {
+      if (this.subscription !== next) return;
+      this._frozen = null;
+      this._setLoading(false);
+    }, (e) => {
+      if (this.subscription === next) {
+        // back to the shown page
+        if (next !== this._shown) next.stop();
+        this.subscription = this._shown;
+        this._page = this._shownPage;
+        this._pages = this._shownPages;
+        this._frozen = null;
+        this.lastError = e;
+        this._setLoading(false);
+      }
+      throw e;
+    });
+  }
+
+  /**
+   * Changes the loading state and notifies the listeners.
+   * @private
+   */
+  _setLoading(loading: boolean) {
+    if (loading == this._loading) return;
+    this._loading = loading;
+    this._notify();
+  }
+
+  /**
+   * Notifies the listeners about the shown documents.
+   * @private
+   */
+  _notify() {
+    const data = this.data();
+    this._tickers.slice().forEach((f) => f(data));
+  }
+}
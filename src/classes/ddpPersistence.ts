@@ -0,0 +1,205 @@
+import EJSON from "ejson";
+import simpleDDP, { DDPMethodCall } from "../simpleDDP";
+import { StorageAdapter } from '../helpers/storage.js';
+
+export type SimpleDDPPersistOptions = {
+  storage: StorageAdapter;
+  // prefix of the storage keys
+  key?: string;
+  // minimal interval in ms between snapshots of collections
+  throttle?: number;
+  // whether to keep collections
+  collections?: boolean;
+  // whether to keep method calls which have no result yet
+  methods?: boolean;
+}
+
+/**
+ * Method call restored from the storage. `call` is a promise like the one returned by @see simpleDDP.apply.
+ */
+export type DDPRestoredCall = {
+  method: string;
+  params: any[];
+  call: DDPMethodCall<any>;
+};
+
+const DEFAULT_KEY = 'simpleddp';
+const DEFAULT_THROTTLE = 500;
+// login parameters must not be written to the storage, the resume token is kept by `authStorage`
+const NOT_PERSISTED_METHODS = ['login'];
+
+/**
+ * Keeps collections and method calls without a result in a storage between app restarts.
+ * @constructor
+ * @param {simpleDDP} ddplink - simpleDDP instance.
+ * @param {Object} options - Persistence options.
+ */
+
+export class ddpPersistence {
+  private _ddplink: simpleDDP<any, any>;
+  private _storage: StorageAdapter;
+  private _key: string;
+  private _throttle: number;
+  private _saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private _methodsSaving = false;
+  private _listeners: { start: () => void; stop: () => void }[] = [];
+  private _stopQueueListener: (() => void) | null = null;
+  /**
+   Resolves when the stored data is restored.
+
+   @type Promise
+   */
+  restored: Promise<void>;
+  /**
+   Method calls restored from the storage, filled when `restored` resolves.
+
+   @type Array
+   */
+  restoredCalls: DDPRestoredCall[] = [];
+
+  constructor(ddplink: simpleDDP<any, any>, options: SimpleDDPPersistOptions) {
+    this._ddplink = ddplink;
+    this._storage = options.storage;
+    this._key = options.key || DEFAULT_KEY;
+    this._throttle = typeof options.throttle === 'number' ? options.throttle : DEFAULT_THROTTLE;
+
+    const collections = options.collections !== false;
+    const methods = options.methods !== false;
+
+    const restoring = [
+      collections ? this._restoreCollections() : undefined,
+      methods ? this._restoreMethods() : undefined
+    ].map((step) => Promise.resolve(step).catch(() => {
+      // broken stored data is ignored
+    }));
+
+    this.restored = Promise.all(restoring).then(() => {
+      // saving starts only now, otherwise the stored data would be overwritten before it is read
+      if (collections) {
+        ['added', 'changed', 'removed'].forEach((event) => {
+          this._listeners.push(ddplink.on(event, () => this._scheduleSave()));
+        });
+      }
+      if (methods) {
+        this._stopQueueListener = ddplink.ddpConnection.messageQueue.onChange(() => this._scheduleMethodsSave());
+        // sent calls are kept until their result arrives
+        this._listeners.push(ddplink.on('result', () => this._scheduleMethodsSave()));
+        this._scheduleMethodsSave();
+      }
+    });
+  }
+
+  /**
+   * Storage key of the item.
+   * @private
+   */
+  _itemKey(item: string) {
+    return this._key + '.' + item;
+  }
+
+  /**
+   * Imports the stored collections like if they were published by the server.
+   * @private
+   */
+  _restoreCollections() {
+    return Promise.resolve(this._storage.getItem(this._itemKey('collections'))).then((data) => {
+      if (data) return this._ddplink.importData(data);
+    });
+  }
+
+  /**
+   * Puts the stored method calls at the beginning of the queue. Like the other queued messages they are sent
+   * once the client is connected and the login is resumed, so they run on behalf of the user.
+   * Calls which were sent but had no result are sent again with the same `randomSeed`.
+   * Their results come in @see restoredCalls.
+   * @private
+   */
+  _restoreMethods() {
+    return Promise.resolve(this._storage.getItem(this._itemKey('methods'))).then((data) => {
+      if (!data) return;
+      const messages: { method: string; params: any[]; randomSeed?: string }[] = EJSON.parse(data);
+      // new ids, ids of the previous run may be already taken
+      const ids = messages.slice().reverse().map((message) => {
+        return this._ddplink.ddpConnection.method(message.method, message.params, true, { randomSeed: message.randomSeed });
+      }).reverse();
+      this.restoredCalls = messages.map(({ method, params }, i) => {
+        const call = this._ddplink._watchMethod(method, ids[i], {});
+        // the app may not look at the restored calls
+        call.catch(() => {
+        });
+        return { method, params, call };
+      });
+    });
+  }
+
+  /**
+   * Saves collections after the throttle interval.
+   * @private
+   */
+  _scheduleSave() {
+    if (this._saveTimer !== null) return;
+    this._saveTimer = setTimeout(() => {
+      this._saveTimer = null;
+      this.save().catch(() => {
+        // the storage may be unavailable, next changes will try again
+      });
+    }, this._throttle);
+  }
+
+  /**
+   * Saves method calls once the current changes of the queue are done.
+   * @private
+   */
+  _scheduleMethodsSave() {
+    if (this._methodsSaving) return;
+    this._methodsSaving = true;
+    Promise.resolve().then(() => {
+      this._methodsSaving = false;
+      const connection = this._ddplink.ddpConnection;
+      // calls in flight were sent before the queued ones
+      const messages = [...connection.methodsInFlight(), ...connection.messageQueue.toArray()].filter((message) => {
+        return message.msg == 'method' && !NOT_PERSISTED_METHODS.includes(message.method);
+      }).map(({ method, params, randomSeed }) => ({ method, params, randomSeed }));
+      return messages.length ?
+        this._storage.setItem(this._itemKey('methods'), EJSON.stringify(messages)) :
+        this._storage.removeItem(this._itemKey('methods'));
+    }).catch(() => {
+      // the storage may be unavailable, next changes will try again
+    });
+  }
+
+  /**
+   * Saves collections right now.
+   * @public
+   * @return {Promise}
+   */
+  save() {
+    return Promise.resolve(this._storage.setItem(this._itemKey('collections'), this._ddplink.exportData('string') as string));
+  }
+
+  /**
+   * Stops saving.
+   * @public
+   */
+  stop() {
+    this._listeners.forEach((listener) => listener.stop());
+    this._listeners = [];
+    if (this._stopQueueListener) this._stopQueueListener();
+    this._stopQueueListener = null;
+    if (this._saveTimer !== null) clearTimeout(this._saveTimer);
+    this._saveTimer = null;
+  }
+
+  /**
+   * Removes the stored data.
+   * @public
+   * @return {Promise}
+   */
+  clear() {
+    return Promise.all([
+      this._storage.removeItem(this._itemKey('collections')),
+      this._storage.removeItem(this._itemKey('methods'))
+    ]).then(() => {
+    });
+  }
+}
@@ -0,0 +1,172 @@
+import simpleDDP, { DDPMessage, DDPMethodCall, SimpleDDPApplyOptions } from "../simpleDDP";
+import { DDPMiddleware } from "../ddp/socket";
+import { ddpSubscriptionHandle } from "./ddpSubscriptionHandle.js";
+import { DDPEventListener } from "./ddpEventListener.js";
+
+export type DDPApplyFunction = (method: string, args?: any[], options?: boolean | SimpleDDPApplyOptions) => DDPMethodCall<any>;
+export type DDPSubFunction = (pubname: string, args: any[]) => ddpSubscriptionHandle;
+// legacy hook, runs once in the constructor with the instance as `this`
+export type DDPLegacyHook = (this: simpleDDP<any, any>) => void;
+export type DDPLegacyHookName = 'init' | 'beforeConnected' | 'afterConnected' | 'beforeSubsRestart' | 'afterSubsRestart' |
+  'beforeDisconnected' | 'afterDisconnected' | 'beforeAdded' | 'afterAdded' | 'beforeChanged' | 'afterChanged' |
+  'beforeRemoved' | 'afterRemoved' | 'after';
+
+/**
+ * simpleDDP plugin. Legacy hooks (`init`, `beforeConnected`, ... `after`) run only for plugins passed to the constructor,
+ * the rest works for plugins installed at any time with @see simpleDDP.use.
+ */
+export type SimpleDDPPlugin = {
+  // plugins with higher priority see messages and calls first, plugins with the same priority go in installation order
+  priority?: number;
+  // runs on every parsed message from the server before simpleDDP sees it
+  inbound?: DDPMiddleware<DDPMessage>;
+  // runs on every message to the server before it is sent
+  outbound?: DDPMiddleware<{ msg: string; [field: string]: any }>;
+  // receives the next `apply` in the chain, returns a replacement
+  wrapApply?: (next: DDPApplyFunction, ddplink: simpleDDP<any, any>) => DDPApplyFunction;
+  // receives the next `sub` in the chain, returns a replacement
+  wrapSub?: (next: DDPSubFunction, ddplink: simpleDDP<any, any>) => DDPSubFunction;
+  // methods added to the instance and to its `extensions`, `this` is the instance
+  extend?: { [name: string]: (this: simpleDDP<any, any>, ...args: any[]) => any };
+  install?: (ddplink: simpleDDP<any, any>) => void;
+  uninstall?: (ddplink: simpleDDP<any, any>) => void;
+  // legacy hooks in the order they run, each one between the steps of the constructor it is named after
+  init?: DDPLegacyHook;
+  beforeConnected?: DDPLegacyHook;
+  afterConnected?: DDPLegacyHook;
+  beforeSubsRestart?: DDPLegacyHook;
+  afterSubsRestart?: DDPLegacyHook;
+  beforeDisconnected?: DDPLegacyHook;
+  afterDisconnected?: DDPLegacyHook;
+  beforeAdded?: DDPLegacyHook;
+  afterAdded?: DDPLegacyHook;
+  beforeChanged?: DDPLegacyHook;
+  afterChanged?: DDPLegacyHook;
+  beforeRemoved?: DDPLegacyHook;
+  afterRemoved?: DDPLegacyHook;
+  after?: DDPLegacyHook;
+};
+
+/**
+ * Plugins of a simpleDDP instance.
+ * @constructor
+ * @param {simpleDDP} ddplink - simpleDDP instance.
+ * @param {Function} apply - `apply` without plugins.
+ * @param {Function} sub - `sub` without plugins.
+ */
+
+export class ddpPlugins {
+  private _ddplink: simpleDDP<any, any>;
+  private _baseApply: DDPApplyFunction;
+  private _baseSub: DDPSubFunction;
+  private _installed: SimpleDDPPlugin[] = [];
+  /**
+   `apply` wrapped by the installed plugins.
+
+   @type Function
+   */
+  apply: DDPApplyFunction;
+  /**
+   `sub` wrapped by the installed plugins.
+
+   @type Function
+   */
+  sub: DDPSubFunction;
+
+  constructor(ddplink: simpleDDP<any, any>, apply: DDPApplyFunction, sub: DDPSubFunction) {
+    this._ddplink = ddplink;
+    this._baseApply = apply;
+    this._baseSub = sub;
+    this.apply = apply;
+    this.sub = sub;
+  }
+
+  /**
+   * Installs the plugin, does nothing if it is already installed.
+   * @public
+   * @param {Object} plugin - Plugin.
+   * @return {ddpEventListener} - `stop` uninstalls the plugin, `start` installs it again.
+   */
+  use(plugin: SimpleDDPPlugin): DDPEventListener {
+    if (!this._installed.includes(plugin)) {
+      const extend = plugin.extend || {};
+      Object.keys(extend).forEach((name) => {
+        if (name in this._ddplink) throw new Error("Plugin can not add '" + name + "' method, the instance already has it");
+      });
+
+      // stable sort keeps the installation order of plugins with the same priority
+      this._installed.push(plugin);
+      this._installed.sort((a, b) => (b.priority || 0) - (a.priority || 0));
+      Object.keys(extend).forEach((name) => {
+        const method = extend[name].bind(this._ddplink);
+        this._ddplink.extensions[name] = method;
+        Object.defineProperty(this._ddplink, name, { configurable: true, writable: true, value: method });
+      });
+      this._rebuild();
+      if (plugin.install) plugin.install(this._ddplink);
+    }
+
+    return {
+      start: () => {
+        this.use(plugin);
+      },
+      stop: () => {
+        this.unuse(plugin);
+      }
+    };
+  }
+
+  /**
+   * Uninstalls the plugin.
+   * @public
+   * @param {Object} plugin - Plugin.
+   */
+  unuse(plugin: SimpleDDPPlugin) {
+    const i = this._installed.indexOf(plugin);
+    if (i < 0) return;
+    this._installed.splice(i, 1);
+    Object.keys(plugin.extend || {}).forEach((name) => {
+      delete this._ddplink.extensions[name];
+      Reflect.deleteProperty(this._ddplink, name);
+    });
+    this._rebuild();
+    if (plugin.uninstall) plugin.uninstall(this._ddplink);
+  }
+
+  /**
+   * Installed plugins in the order they see messages and calls.
+   * @public
+   * @return {Array}
+   */
+  list() {
+    return this._installed.slice();
+  }
+
+  /**
+   * Runs legacy hooks of the plugins passed to the constructor, `this` of a hook is the instance.
+   * @private
+   * @param {Array} plugins - Plugins passed to the constructor.
+   * @param {...string} hooks - Names of the hooks.
+   */
+  _runLegacyHooks(plugins: SimpleDDPPlugin[], ...hooks: DDPLegacyHookName[]) {
+    plugins.forEach((plugin) => {
+      hooks.forEach((hook) => {
+        const f = plugin[hook];
+        if (f) f.call(this._ddplink);
+      });
+    });
+  }
+
+  /**
+   * Puts middleware of the plugins to the socket and wraps `apply` and `sub`.
+   * @private
+   */
+  _rebuild() {
+    const socket = this._ddplink.ddpConnection.socket;
+    socket.inbound = this._installed.filter((p) => p.inbound).map((p) => p.inbound!);
+    socket.outbound = this._installed.filter((p) => p.outbound).map((p) => p.outbound!);
+    // the first plugin is the outermost wrapper
+    this.apply = this._installed.reduceRight((next, p) => p.wrapApply ? p.wrapApply(next, this._ddplink) : next, this._baseApply);
+    this.sub = this._installed.reduceRight((next, p) => p.wrapSub ? p.wrapSub(next, this._ddplink) : next, this._baseSub);
+  }
+}
@@ -1,103 +1,239 @@
 import { ddpReducer } from './ddpReducer.js';
 import { ddpReactiveDocument } from './ddpReactiveDocument.js';
 import { ddpOnChange } from './ddpOnChange.js';
-import { ddpCollection } from "./ddpCollection";
+import { ddpDocumentIndex } from './ddpDocumentIndex.js';
+import { ddpCollection, DDPSort, toSortFunction } from "./ddpCollection";
+import { DDPDocument } from "../simpleDDP";
+import { toAsyncIterator, toObservable, observableInterop } from '../helpers/stream.js';
+import { compileProjection, DDPProjection } from '../helpers/selector.js';
+import EJSON from "ejson";
 
 /**
  * A reactive collection class.
  * @constructor
  * @param {ddpCollection} ddpCollection - Instance of @see ddpCollection class.
- * @param {Object} [settings={skip:0,limit:Infinity,sort:false}] - Object for declarative reactive collection slicing.
+ * @param {Object} [settings={skip:0,limit:Infinity,sort:false,fields:null}] - Object for declarative reactive collection slicing.
  * @param {Function} [filter=undefined] - Filter function.
  */
 
+/**
+ * Numbers of documents added, changed and removed since the previous notification.
+ */
+export type DDPChangeSummary = {
+  added: number;
+  changed: number;
+  removed: number;
+};
+
+/**
+ * Difference between the data of the previous and the current notification.
+ * `index` of removed documents and `prevIndex` are positions in the previous data,
+ * `index` of added documents and `newIndex` are positions in the current data.
+ * `changed` has new values of the changed fields, removed fields are undefined.
+ * `moved` are documents which changed their order relative to the others, the fewest such documents are reported.
+ */
+export type DDPCollectionChanges<D> = {
+  added: { doc: D; index: number }[];
+  removed: { doc: D; index: number }[];
+  changed: { id: string; doc: D; fields: Partial<D>; prevIndex: number; newIndex: number }[];
+  moved: { id: string; doc: D; prevIndex: number; newIndex: number }[];
+};
+
+/**
+ * Returns positions of the longest increasing subsequence of the numbers.
+ * @private
+ */
+function longestIncreasing(numbers: number[]) {
+  // tails[k] - position of the smallest last number of increasing subsequences of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = [];
+  numbers.forEach((n, i) => {
+    let low = 0, high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (numbers[tails[middle]] < n) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+  const result = new Set<number>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i > -1; i = previous[i]) result.add(i);
+  return result;
+}
+
 export class ddpReactiveCollection<T> {
   private _skip: number;
   private _limit: number;
   private _sort: false | ((a: any, b: any) => number);
+  private _project: false | ((doc: any) => any) = false;
+  // projected documents of this._data by the full documents of this._rawData
+  private _projected = new WeakMap<DDPDocument<T>, DDPDocument<T>>();
   private _length: { result: number } = { result: 0 };
-  private _data: any[] = [];
-  private _rawData: any[] = [];
+  private _data: DDPDocument<T>[] = [];
+  private _rawData: DDPDocument<T>[] = [];
+  private _rawIndex = new ddpDocumentIndex<DDPDocument<T>>(this._rawData);
   private _reducers: ddpReducer<any, any, any, T>[] = [];
   private _tickers: any[] = [];
+  // tickers which receive the changes since the previous notification
+  private _changeTickers: any[] = [];
+  private _stopTickers: ((error?: any) => void)[] = [];
   private _ones: any[] = [];
   private _first = {}
+  // data of the previous notification, kept only while there are change tickers
+  private _notified: DDPDocument<T>[] | null = null;
+  private _summary: DDPChangeSummary = { added: 0, changed: 0, removed: 0 };
+  private _collection: ddpCollection<T>;
   private _syncFunc: (skip: number | undefined, limit: number | undefined, sort: ((a: any, b: any) => number) | false) => any;
   private _changeHandler;
   private started: boolean;
 
-  constructor(ddpCollectionInstance: ddpCollection<T>, settings?: { skip?: number; limit?: number; sort?: false | ((a: T, b: T) => number) }, filter?: boolean | ((value: T, index: number, array: T[]) => any)) {
+  constructor(ddpCollectionInstance: ddpCollection<T>, settings?: { skip?: number; limit?: number; sort?: DDPSort<DDPDocument<T>>; fields?: DDPProjection | null }, filter?: false | ((value: DDPDocument<T>, index: number, array: DDPDocument<T>[]) => any)) {
     this._skip = settings && typeof settings.skip === 'number' ? settings.skip : 0;
     this._limit = settings && typeof settings.limit === 'number' ? settings.limit : Infinity;
-    this._sort = settings && typeof settings.sort === 'function' ? settings.sort : false;
+    this._sort = toSortFunction(settings && settings.sort);
+    if (settings && settings.fields) this._project = compileProjection(settings.fields);
+    this._collection = ddpCollectionInstance;
 
     this._syncFunc = function (skip: number | undefined, limit: number | undefined, sort: ((a: any, b: any) => number) | boolean) {
       const options: {
         skip?: number,
         limit?: number,
-        sort?: ((a: any, b: any) => number) | boolean
+        sort?: ((a: any, b: any) => number) | boolean,
+        filter?: (value: DDPDocument<T>, index: number, array: DDPDocument<T>[]) => any
       } = {};
       if (typeof skip === 'number') options.skip = skip;
       if (typeof limit === 'number') options.limit = limit;
       if (sort) {
         options.sort = sort;
       }
+      // the same documents as the change listener passes
+      if (filter) options.filter = filter;
       return ddpCollectionInstance.fetch.call(ddpCollectionInstance, options);
     };
 
-    // @ts-ignore
-    // @ts-ignore
-    this._changeHandler = ddpCollectionInstance.onChange(({ prev, next, predicatePassed }) => {
+    this._changeHandler = ddpCollectionInstance.onChange(({ prev, next, predicatePassed = [false, false] }) => {
       if (prev && next) {
         if (predicatePassed[0] == 0 && predicatePassed[1] == 1) {
           // prev falling, next passing filter, adding new element with sort
           this._smartUpdate(next);
+          this._summary.added++;
         } else if (predicatePassed[0] == 1 && predicatePassed[1] == 0) {
           // prev passing, next falling filter, removing old element
-          let i = this._rawData.findIndex((obj) => {
-            return obj._id == prev._id;
-          });
-          this._removeItem(i);
+          this._removeItem(this._rawIndex.indexOf(prev._id));
+          this._summary.removed++;
         } else if (predicatePassed[0] == 1 && predicatePassed[1] == 1) {
+          const j = this._rawIndex.indexOf(prev._id);
+          if (this._project && j > -1 && this._fits(j, next) && EJSON.equals(this._project(prev), this._project(next))) {
+            // only fields out of the projection changed, the data stays the same
+            this._projected.set(next, this._view(this._rawData[j]));
+            this._rawIndex.replace(j, next);
+            return;
+          }
           // both passing, should delete previous and add new
-          let i = this._rawData.findIndex((obj) => {
-            return obj._id == prev._id;
-          });
-          this._smartUpdate(next, i);
+          this._smartUpdate(next, j);
+          this._summary.changed++;
         }
       } else if (!prev && next) {
         // element was added and is passing the filter
         // adding new element with sort
         this._smartUpdate(next);
+        this._summary.added++;
       } else if (prev && !next) {
         // element was removed and is passing the filter, so it was in newCollection
         // removing old element
-        let i = this._rawData.findIndex((obj) => {
-          return obj._id == prev._id;
-        });
-        this._removeItem(i);
+        this._removeItem(this._rawIndex.indexOf(prev._id));
+        this._summary.removed++;
       }
       this._length.result = this._data.length;
 
-      this._reducers.forEach((reducer) => {
-        reducer.doReduce();
-      });
+      ddpCollectionInstance._batch(this, () => this._notify());
+    }, filter ? filter : () => 1);
 
-      if (this._data[0] !== this._first) {
-        this._updateReactiveObjects();
-      }
+    this.started = false;
+
+    this.start();
+  }
+
+  /**
+   * Notifies reducers, reactive objects and tickers about the changes since the previous notification.
+   * @private
+   */
+  _notify() {
+    const summary = this._summary;
+    this._summary = { added: 0, changed: 0, removed: 0 };
+
+    this._reducers.forEach((reducer) => {
+      reducer.doReduce();
+    });
+
+    if (this._data[0] !== this._first) {
+      this._updateReactiveObjects();
+    }
+
+    this._first = this._data[0];
 
-      this._first = this._data[0];
+    this._tickers.forEach((ticker) => {
+      ticker(this.data(), summary);
+    });
 
-      this._tickers.forEach((ticker) => {
-        ticker(this.data());
+    if (this._changeTickers.length) {
+      const changes = this._changes();
+      this._changeTickers.forEach((ticker) => {
+        ticker(this.data(), summary, changes);
       });
-      //@ts-ignore
-    }, filter ? filter : (_) => 1);
+      this._notified = this._data.slice();
+    }
+  }
 
-    this.started = false;
+  /**
+   * Compares the data with the data of the previous notification.
+   * @private
+   * @return {Object} - `{added, removed, changed, moved}`.
+   */
+  _changes(): DDPCollectionChanges<DDPDocument<T>> {
+    const changes: DDPCollectionChanges<DDPDocument<T>> = { added: [], removed: [], changed: [], moved: [] };
+    const notified = this._notified || [];
+    const prevIndexes = new Map<string, number>();
+    notified.forEach((doc, i) => prevIndexes.set(doc._id, i));
+    const newIndexes = new Map<string, number>();
+    this._data.forEach((doc, i) => newIndexes.set(doc._id, i));
+
+    notified.forEach((doc, index) => {
+      if (!newIndexes.has(doc._id)) changes.removed.push({ doc, index });
+    });
 
-    this.start();
+    // documents which stay, in the new order
+    const kept: [DDPDocument<T>, number, number][] = [];
+    this._data.forEach((doc, newIndex) => {
+      const prevIndex = prevIndexes.get(doc._id);
+      if (prevIndex === undefined) {
+        changes.added.push({ doc, index: newIndex });
+        return;
+      }
+      kept.push([doc, prevIndex, newIndex]);
+      const prev = notified[prevIndex];
+      if (prev === doc) return;
+      const before: Record<string, unknown> = prev, after: Record<string, unknown> = doc;
+      const fields: Record<string, unknown> = {};
+      Object.keys(Object.assign({}, before, after)).forEach((field) => {
+        if (!EJSON.equals(before[field], after[field])) fields[field] = after[field];
+      });
+      if (Object.keys(fields).length) {
+        changes.changed.push({ id: doc._id, doc, fields: fields as Partial<DDPDocument<T>>, prevIndex, newIndex });
+      }
+    });
+
+    // the rest keep their relative order, only these have to move
+    const staying = longestIncreasing(kept.map(([, prevIndex]) => prevIndex));
+    kept.forEach(([doc, prevIndex, newIndex], i) => {
+      if (!staying.has(i)) changes.moved.push({ id: doc._id, doc, prevIndex, newIndex });
+    });
+
+    return changes;
   }
 
   /**
@@ -106,86 +242,130 @@ export class ddpReactiveCollection<T> {
    * @param {number} i - Document index in this._rawData array.
    */
   _removeItem(i: number) {
-    this._rawData.splice(i, 1);
+    if (i < 0) return;
+    this._rawIndex.remove(i);
 
     if (i >= this._skip && i < this._skip + this._limit) {
       this._data.splice(i - this._skip, 1);
 
       if (this._rawData.length >= this._skip + this._limit) {
-        this._data.push(this._rawData[this._skip + this._limit - 1]);
+        this._data.push(this._view(this._rawData[this._skip + this._limit - 1]));
       }
     } else if (i < this._skip) {
       this._data.shift();
       if (this._rawData.length >= this._skip + this._limit) {
-        this._data.push(this._rawData[this._skip + this._limit - 1]);
+        this._data.push(this._view(this._rawData[this._skip + this._limit - 1]));
       }
     }
 
   }
 
   /**
-   * Adds document to local the collection this._rawData according to used sorting if specified.
+   * Inserts document to the local collection copies.
    * @private
-   * @param {Object} newEl - Document to be added to the local collection.
-   * @param j
-   * @return {boolean} - The first element in the collection was changed
+   * @param {number} i - Document index in this._rawData array.
+   * @param {Object} newEl - Document to be inserted.
    */
-  _smartUpdate(newEl: {}, j?: number) {
-    let placement;
-    if (!this._rawData.length) {
-      placement = this._rawData.push(newEl) - 1;
-      if (placement >= this._skip && placement < this._skip + this._limit) {
-        this._data.push(newEl);
+  _insertItem(i: number, newEl: DDPDocument<T>) {
+    this._rawIndex.insert(i, newEl);
+
+    if (i < this._skip + this._limit) {
+      if (i >= this._skip) {
+        this._data.splice(i - this._skip, 0, this._view(newEl));
+      } else if (this._rawData.length > this._skip) {
+        // window is shifted by the new document before it
+        this._data.unshift(this._view(this._rawData[this._skip]));
+      } else {
+        return;
       }
-      return;
+      this._data.splice(this._limit);
     }
+  }
 
-    if (this._sort) {
-      for (let i = 0; i < this._rawData.length; i++) {
-        if (this._sort(newEl, this._rawData[i]) < 1) {
-          placement = i;
-          if (i == j) {
-            // new position is the the same
-            this._rawData[i] = newEl;
-            if (j >= this._skip && j < this._skip + this._limit) {
-              this._data[j - this._skip] = newEl;
-            }
-          } else {
-            // new position is different
-            // removing old element and adding new
-            this._removeItem(j as number);
-            this._rawData.splice(i, 0, newEl);
-            if (i >= this._skip && i < this._skip + this._limit) {
-              this._data.splice(i - this._skip, 0, newEl);
-              this._data.splice(this._limit);
-            }
-          }
-          break;
-        }
-        if (i == this._rawData.length - 1) {
-          placement = this._rawData.push(newEl) - 1;
-          if (placement >= this._skip && placement < this._skip + this._limit) {
-            this._data.push(newEl);
-          }
-          break;
-        }
+  /**
+   * Finds the position of a document in the sorted this._rawData array by binary search.
+   * @private
+   * @param {Object} el - Document.
+   * @return {number} - Position before the first document which is not less than the passed one.
+   */
+  _sortedIndex(el: DDPDocument<T>) {
+    const sort = this._sort as (a: any, b: any) => number;
+    let low = 0, high = this._rawData.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (sort(el, this._rawData[middle]) <= 0) {
+        high = middle;
+      } else {
+        low = middle + 1;
       }
-    } else {
-      // no sorting, trying to change existing
-      if (typeof j === 'number') {
-        placement = j;
-        this._rawData[j] = newEl;
+    }
+    return low;
+  }
+
+  /**
+   * Adds document to local the collection this._rawData according to used sorting if specified.
+   * @private
+   * @param {Object} newEl - Document to be added to the local collection.
+   * @param {number} [j] - Index of the previous version of the document in this._rawData array.
+   */
+  _smartUpdate(newEl: DDPDocument<T>, j?: number) {
+    if (typeof j === 'number' && j > -1) {
+      if (this._fits(j, newEl)) {
+        // new position is the same
+        this._rawIndex.replace(j, newEl);
         if (j >= this._skip && j < this._skip + this._limit) {
-          this._data[j - this._skip] = newEl;
-        }
-      } else {
-        placement = this._rawData.push(newEl) - 1;
-        if (placement >= this._skip && placement < this._skip + this._limit) {
-          this._data.push(newEl);
+          this._data[j - this._skip] = this._view(newEl);
         }
+        return;
       }
+      // new position is different
+      // removing old element and adding new
+      this._removeItem(j);
     }
 
+    this._insertItem(this._sort ? this._sortedIndex(newEl) : this._rawData.length, newEl);
+  }
+
+  /**
+   * Checks if the new version of the document keeps its position in this._rawData array.
+   * @private
+   * @param {number} j - Index of the previous version of the document in this._rawData array.
+   * @param {Object} newEl - New version of the document.
+   * @return {boolean}
+   */
+  _fits(j: number, newEl: DDPDocument<T>) {
+    const sort = this._sort;
+    return !sort || (
+      (j == 0 || sort(this._rawData[j - 1], newEl) <= 0) &&
+      (j == this._rawData.length - 1 || sort(newEl, this._rawData[j + 1]) <= 0)
+    );
+  }
+
+  /**
+   * Returns the document as it is shown in the data, i.e. with projected fields.
+   * @private
+   * @param {Object} el - Document from this._rawData array.
+   * @return {Object}
+   */
+  _view(el: DDPDocument<T>) {
+    if (!this._project) return el;
+    let projected = this._projected.get(el);
+    if (!projected) {
+      projected = this._project(el) as DDPDocument<T>;
+      this._projected.set(el, projected);
+    }
+    return projected;
+  }
+
+  /**
+   * Fills local collection copies from the collection.
+   * @private
+   */
+  _sync() {
+    this._rawData = this._syncFunc(0, undefined, this._sort);
+    this._rawIndex.reset(this._rawData);
+    this._data.splice(0, this._data.length, ...this._rawData.slice(this._skip, this._skip + this._limit).map((el) => this._view(el)));
+    this._updateReactiveObjects();
   }
 
   /**
@@ -243,24 +423,29 @@ export class ddpReactiveCollection<T> {
   /**
    * Updates ddpReactiveCollection settings.
    * @public
-   * @param {Object} [settings={skip:0,limit:Infinity,sort:false}] - Object for declarative reactive collection slicing.
+   * @param {Object} [settings={skip:0,limit:Infinity,sort:false,fields:null}] - Object for declarative reactive collection slicing.
+   * Sort can be a Mongo-style sort specifier. Fields is a Mongo-style projection, e.g. `{title: 1, 'author.name': 1}` or `{body: 0}`,
+   * changes of other fields do not notify the reactive collection. Pass null to show all fields again.
    * @return {this}
    */
-  settings(settings: { skip?: number; limit?: typeof Infinity; sort?: false | ((a: T, b: T) => number); }) {
+  settings(settings: { skip?: number; limit?: typeof Infinity; sort?: DDPSort<DDPDocument<T>>; fields?: DDPProjection | null }) {
     let skip, limit, sort;
 
     if (settings) {
       skip = settings.skip;
       limit = settings.limit;
-      sort = settings.sort;
+      sort = settings.sort !== undefined ? toSortFunction(settings.sort) : undefined;
+      if (settings.fields !== undefined) {
+        this._project = settings.fields ? compileProjection(settings.fields) : false;
+        this._projected = new WeakMap();
+      }
     }
 
     this._skip = skip !== undefined ? skip : this._skip;
     this._limit = limit !== undefined ? limit : this._limit;
     this._sort = sort !== undefined ? sort : this._sort;
 
-    this._data.splice(0, this._data.length, ...this._syncFunc(this._skip, this._limit, this._sort));
-    this._updateReactiveObjects();
+    this._sync();
     return this;
   }
 
@@ -291,7 +476,10 @@ export class ddpReactiveCollection<T> {
   stop() {
     if (this.started) {
       this._changeHandler.stop();
+      this._collection._cancelBatch(this);
+      this._summary = { added: 0, changed: 0, removed: 0 };
       this.started = false;
+      this._stopTickers.slice().forEach((f) => f());
     }
   }
 
@@ -303,9 +491,7 @@ export class ddpReactiveCollection<T> {
    */
   start() {
     if (!this.started) {
-      this._rawData.splice(0, this._rawData.length, ...this._syncFunc(0, 0, this._sort));
-      this._data.splice(0, this._data.length, ...this._syncFunc(this._skip, this._limit, this._sort));
-      this._updateReactiveObjects();
+      this._sync();
       this._changeHandler.start();
       this.started = true;
     }
@@ -315,15 +501,13 @@ export class ddpReactiveCollection<T> {
    * Sorts local collection according to specified function.
    * Specified function form {@link https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/Array/sort}.
    * @public
-   * @param {Function} f - A function used for sorting.
+   * @param {Function|Object} f - A function used for sorting or a Mongo-style sort specifier, e.g. `{createdAt: -1}`.
    * @return {this}
    */
-  sort(f: false | ((a: T, b: T) => number)) {
-    this._sort = f;
+  sort(f: DDPSort<DDPDocument<T>>) {
+    this._sort = toSortFunction(f);
     if (this._sort) {
-      this._rawData.splice(0, this._rawData.length, ...this._syncFunc(0, 0, this._sort));
-      this._data.splice(0, this._data.length, ...this._syncFunc(this._skip, this._limit, this._sort));
-      this._updateReactiveObjects();
+      this._sync();
     }
     return this;
   }
@@ -340,12 +524,67 @@ export class ddpReactiveCollection<T> {
 
   /**
    * Runs a function every time a change occurs.
-   * @param {Function} f - Function which recieves new collection at each change.
+   * @param {Function} f - Function which recieves new collection and `{added, changed, removed}` numbers of changed documents at each change.
+   * With `changes` option the third argument `{added, removed, changed, moved}` describes how the data differs from the data of the previous call,
+   * e.g. to update only the changed items of a rendered list. Unlike the numbers it covers only documents within skip and limit.
+   * With `batch` option of simpleDDP it runs once per batch of incoming data.
+   * @param {Object} [options]
+   * @param {boolean} [options.changes=false] - Whether to compare the data with the previous data, which takes time proportional to the data length.
+   * @public
+   */
+  onChange(f: (data: DDPDocument<T>[], summary: DDPChangeSummary) => void): { start: () => void, stop: () => void };
+  onChange(f: (data: DDPDocument<T>[], summary: DDPChangeSummary, changes: DDPCollectionChanges<DDPDocument<T>>) => void, options: { changes: true }): { start: () => void, stop: () => void };
+  onChange(f: (data: DDPDocument<T>[], summary: DDPChangeSummary, changes: DDPCollectionChanges<DDPDocument<T>>) => void, { changes = false }: { changes?: boolean } = {}) {
+    const self = this as unknown as { [x: string]: any[] };
+    if (!changes) return ddpOnChange(f, self, '_tickers');
+
+    // the first change ticker starts comparing with the current data, the last one forgets it
+    const snapshot = () => {
+      if (!this._changeTickers.length) this._notified = this._data.slice();
+    };
+    snapshot();
+    const listener = ddpOnChange(f, self, '_changeTickers');
+    return {
+      start: () => {
+        snapshot();
+        listener.start();
+      },
+      stop: () => {
+        listener.stop();
+        if (!this._changeTickers.length) this._notified = null;
+      }
+    };
+  }
+
+  /**
+   * Iterates the collection data with `for await`, starting with the current data.
+   * A consumer slower than the changes gets only the latest data. Leaving the loop stops the listener,
+   * the loop ends when the reactive collection stops.
+   * @public
+   * @example
+   * for await (const tasks of server.collection('tasks').reactive()) render(tasks);
+   */
+  [Symbol.asyncIterator]() {
+    return toAsyncIterator<DDPDocument<T>[]>((push) => this.onChange(push), () => this.data(), undefined, (end) => this._onStop(end));
+  }
+
+  /**
+   * Observable of the collection data for RxJS and similar libraries, also available with `Symbol.observable`.
+   * Every subscriber gets the current data first and completes when the reactive collection stops.
    * @public
+   * @return {Object} - Observable.
    */
-  onChange(f: {}) {
+  '@@observable'() {
+    return toObservable<DDPDocument<T>[]>((push) => this.onChange(push), () => this.data(), (end) => this._onStop(end));
+  }
+
+  /**
+   * Runs a function when the reactive collection stops, used to end iterators and observables.
+   * @private
+   */
+  _onStop(f: (error?: any) => void) {
     const self = this as unknown as { [x: string]: any[] };
-    return ddpOnChange(f, self, '_tickers');
+    return ddpOnChange(f, self, '_stopTickers');
   }
 
   /**
@@ -386,11 +625,14 @@ export class ddpReactiveCollection<T> {
   /**
    * Returns a reactive object which fields are always the same as the first object in the collection.
    * @public
-   * @param {Object} [settings={preserve:false}] - Settings for reactive object. Use {preserve:true} if you want to keep object on remove.
+   * @param {Object} [settings={preserve:false,fields:null}] - Settings for reactive object. Use {preserve:true} if you want to keep object on remove.
+   * Fields is a Mongo-style projection of the document, changes of other fields do not notify the reactive object.
    * @return {ddpReactiveDocument} - Object that allows to get reactive object based on reduced reactive local collection @see ddpReactiveDocument.
    */
-  one(settings: { preserve: any; } | null) {
+  one(settings: { preserve?: any; fields?: DDPProjection | null } | null) {
     return new ddpReactiveDocument<T>(this, settings);
   }
 
 }
+
+observableInterop(ddpReactiveCollection.prototype);
@@ -1,23 +1,29 @@
 import { ddpOnChange } from './ddpOnChange.js';
 import { ddpReactiveCollection } from "./ddpReactiveCollection";
+import { DDPDocument } from "../simpleDDP";
+import { toAsyncIterator, toObservable, observableInterop } from '../helpers/stream.js';
+import { compileProjection, DDPProjection } from '../helpers/selector.js';
+import EJSON from "ejson";
 
 /**
  * A reactive document class.
  * @constructor
  * @param {ddpReactiveCollection} ddpReactiveCollectionInstance - Instance of @see ddpReactiveCollection class.
- * @param {Object} [settings={preserve:false}] - Settings for reactive object. When preserve is true,
- * reactive object won't change when corresponding object is being deleted.
+ * @param {Object} [settings={preserve:false,fields:null}] - Settings for reactive object. When preserve is true,
+ * reactive object won't change when corresponding object is being deleted. Fields is a Mongo-style projection of the document.
  */
 
 export class ddpReactiveDocument<T> {
   private _ddpReactiveCollectionInstance: any;
   private _started: boolean;
-  private readonly _data: {};
+  private readonly _data: Record<string, unknown>;
   private _tickers: any[];
+  private _stopTickers: ((error?: any) => void)[] = [];
   private _preserve: boolean;
+  private _project: false | ((doc: any) => any) = false;
 
 
-  constructor(ddpReactiveCollectionInstance: ddpReactiveCollection<T>, settings: { preserve: any; } | null) {
+  constructor(ddpReactiveCollectionInstance: ddpReactiveCollection<T>, settings: { preserve?: any; fields?: DDPProjection | null } | null) {
     this._ddpReactiveCollectionInstance = ddpReactiveCollectionInstance;
     this._started = false;
     this._data = {};
@@ -32,11 +38,15 @@ export class ddpReactiveDocument<T> {
    * @private
    * @param {Object} newState - Document's new state.
    */
-  _update<T>(newState: T) {
+  _update(newState: Record<string, unknown> | undefined) {
+    if (newState && this._project) {
+      newState = this._project(newState);
+      // only fields out of the projection changed
+      if (EJSON.equals(newState, this._data)) return;
+    }
     if (newState) {
       //clean object
       Object.keys(this._data).forEach((key) => {
-        // @ts-ignore
         delete this._data[key];
       });
       //assign new state
@@ -45,7 +55,6 @@ export class ddpReactiveDocument<T> {
       // no object clean if not preserved
       if (!this._preserve) {
         Object.keys(this._data).forEach((key) => {
-          // @ts-ignore
           delete this._data[key];
         });
       }
@@ -76,6 +85,7 @@ export class ddpReactiveDocument<T> {
     if (this._started) {
       this._ddpReactiveCollectionInstance._deactivateReactiveObject(this);
       this._started = false;
+      this._stopTickers.slice().forEach((f) => f());
     }
   }
 
@@ -85,7 +95,7 @@ export class ddpReactiveDocument<T> {
    * @return {Object}
    */
   data() {
-    return this._data as T;
+    return this._data as DDPDocument<T>;
   }
 
   /**
@@ -93,18 +103,52 @@ export class ddpReactiveDocument<T> {
    * @param {Function} f - Function which recieves a new value at each change.
    * @public
    */
-  onChange(f: {}) {
+  onChange(f: (doc: DDPDocument<T>) => void) {
     const self = this as unknown as { [x: string]: any[] };
     return ddpOnChange(f, self, '_tickers');
   }
 
+  /**
+   * Iterates the document with `for await`, starting with its current state.
+   * A consumer slower than the changes gets only the latest state. Leaving the loop stops the listener,
+   * the loop ends when the reactive document stops.
+   * @public
+   */
+  [Symbol.asyncIterator]() {
+    return toAsyncIterator<DDPDocument<T>>((push) => this.onChange(push), () => this.data(), undefined, (end) => this._onStop(end));
+  }
+
+  /**
+   * Observable of the document, also available with `Symbol.observable`. Every subscriber gets the current state first
+   * and completes when the reactive document stops.
+   * @public
+   * @return {Object} - Observable.
+   */
+  '@@observable'() {
+    return toObservable<DDPDocument<T>>((push) => this.onChange(push), () => this.data(), (end) => this._onStop(end));
+  }
+
+  /**
+   * Runs a function when the reactive document stops, used to end iterators and observables.
+   * @private
+   */
+  _onStop(f: (error?: any) => void) {
+    const self = this as unknown as { [x: string]: any[] };
+    return ddpOnChange(f, self, '_stopTickers');
+  }
+
   /**
    * Change reactivity settings.
    * @param {Object} settings
    * @param {boolean} settings.preserve - When preserve is true,reactive object won't change when corresponding object is being deleted.
+   * @param {Object} [settings.fields] - Mongo-style projection, e.g. `{title: 1}`, changes of other fields do not notify the reactive object.
+   * Pass null to show all fields again, applies from the next change.
    * @public
    */
-  settings({ preserve }: { preserve: boolean; }) {
-    this._preserve = !!preserve;
+  settings({ preserve, fields }: { preserve?: boolean; fields?: DDPProjection | null }) {
+    if (preserve !== undefined) this._preserve = !!preserve;
+    if (fields !== undefined) this._project = fields ? compileProjection(fields) : false;
   }
 }
+
+observableInterop(ddpReactiveDocument.prototype);
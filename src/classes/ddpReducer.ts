@@ -1,5 +1,6 @@
 import { ddpOnChange } from './ddpOnChange.js';
 import { ddpReactiveCollection } from "./ddpReactiveCollection";
+import { toAsyncIterator, toObservable, observableInterop } from '../helpers/stream.js';
 
 /**
  * A reducer class for a reactive document.
@@ -15,6 +16,7 @@ export class ddpReducer<RArgs extends [any[], any, number, any[] ], RResult, RIn
   private _started: boolean = false;
   private readonly _data: { result: null; } = { result: null };
   private _tickers: any[] = [];
+  private _stopTickers: ((error?: any) => void)[] = [];
   private readonly _initialValue: RInit;
 
   constructor(
@@ -48,9 +50,9 @@ export class ddpReducer<RArgs extends [any[], any, number, any[] ], RResult, RIn
    */
   start() {
     if (!this._started) {
+      this._started = true;
       this.doReduce();
       this._ddpReactiveCollectionInstance._activateReducer(this);
-      this._started = true;
     }
   }
 
@@ -62,6 +64,7 @@ export class ddpReducer<RArgs extends [any[], any, number, any[] ], RResult, RIn
     if (this._started) {
       this._ddpReactiveCollectionInstance._deactivateReducer(this);
       this._started = false;
+      this._stopTickers.slice().forEach((f) => f());
     }
   }
 
@@ -84,4 +87,35 @@ export class ddpReducer<RArgs extends [any[], any, number, any[] ], RResult, RIn
     return ddpOnChange(f, self, '_tickers');
   }
 
+  /**
+   * Iterates the reduced value with `for await`, starting with the current one.
+   * A consumer slower than the changes gets only the latest value. Leaving the loop stops the listener,
+   * the loop ends when the reducer stops.
+   * @public
+   */
+  [Symbol.asyncIterator]() {
+    return toAsyncIterator<any>((push) => this.onChange(push), () => this.data().result, undefined, (end) => this._onStop(end));
+  }
+
+  /**
+   * Observable of the reduced value, also available with `Symbol.observable`. Every subscriber gets the current value first
+   * and completes when the reducer stops.
+   * @public
+   * @return {Object} - Observable.
+   */
+  '@@observable'() {
+    return toObservable<any>((push) => this.onChange(push), () => this.data().result, (end) => this._onStop(end));
+  }
+
+  /**
+   * Runs a function when the reducer stops, used to end iterators and observables.
+   * @private
+   */
+  _onStop(f: (error?: any) => void) {
+    const self = this as unknown as { [x: string]: any[] };
+    return ddpOnChange(f, self, '_stopTickers');
+  }
+
 }
+
+observableInterop(ddpReducer.prototype);
@@ -0,0 +1,318 @@
+import EJSON from "ejson";
+import { fullCopy } from '../helpers/fullCopy.js';
+import { compileSelector, DDPSelector } from '../helpers/selector.js';
+import { randomId } from '../ddp/utils.js';
+import simpleDDP from "../simpleDDP";
+
+/**
+ * Context of a method stub, available as `this` inside the stub.
+ */
+export type DDPStubContext = {
+  isSimulation: true;
+  userId: string | null;
+  connection: simpleDDP<any, any>;
+  collection: (name: string) => DDPStubCollection;
+};
+
+/**
+ * Collection writer available inside a method stub.
+ * Writes are applied to the local collections immediately and are rolled back
+ * when the server sends all data writes of the method.
+ */
+export type DDPStubCollection = {
+  find: (selector?: DDPSelector | string) => any[];
+  findOne: (selector?: DDPSelector | string) => any;
+  insert: (doc: { _id?: string, [key: string]: any }) => string;
+  update: (selector: DDPSelector | string, modifier: { [key: string]: any }) => number;
+  remove: (selector: DDPSelector | string) => number;
+};
+
+export type DDPStub = (this: DDPStubContext, ...args: any[]) => any;
+
+type TrackedDocument = {
+  // the document as the server sees it, null if the server has no such document
+  serverDoc: { _id: any, [key: string]: any } | null;
+  // ids of methods which have changed the document and are not finished yet
+  methods: Set<string>;
+};
+
+function setPath(doc: any, path: string, value: any) {
+  const parts = path.split('.');
+  let obj = doc;
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (obj[parts[i]] === null || typeof obj[parts[i]] !== 'object') obj[parts[i]] = {};
+    obj = obj[parts[i]];
+  }
+  return obj[parts[parts.length - 1]] = typeof value === 'function' ? value(obj[parts[parts.length - 1]]) : value;
+}
+
+function unsetPath(doc: any, path: string) {
+  const parts = path.split('.');
+  let obj = doc;
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (obj[parts[i]] === null || typeof obj[parts[i]] !== 'object') return;
+    obj = obj[parts[i]];
+  }
+  delete obj[parts[parts.length - 1]];
+}
+
+/**
+ * Applies a Mongo-style modifier to the document copy.
+ * Supports `$set`, `$unset`, `$inc` and `$push`, a modifier without operators replaces the document.
+ * @private
+ */
+function applyModifier(doc: { _id: any, [key: string]: any }, modifier: { [key: string]: any }) {
+  const keys = Object.keys(modifier);
+  if (!keys.some((key) => key[0] === '$')) {
+    return Object.assign({ _id: doc._id }, fullCopy(modifier));
+  }
+  const newDoc = fullCopy(doc);
+  keys.forEach((op) => {
+    Object.keys(modifier[op]).forEach((path) => {
+      const value = fullCopy(modifier[op][path]);
+      switch (op) {
+        case '$set':
+          setPath(newDoc, path, value);
+          break;
+        case '$unset':
+          unsetPath(newDoc, path);
+          break;
+        case '$inc':
+          setPath(newDoc, path, (old: any) => (typeof old === 'number' ? old : 0) + value);
+          break;
+        case '$push':
+          setPath(newDoc, path, (old: any) => (Array.isArray(old) ? old : []).concat(
+            value && Array.isArray(value.$each) ? value.$each : [value]
+          ));
+          break;
+        default:
+          throw new Error('Unsupported modifier operator: ' + op);
+      }
+    });
+  });
+  return newDoc;
+}
+
+/**
+ * Runs method stubs (latency compensation). Stubs write to local collections right away,
+ * while documents written by stubs keep their server state aside. When the server sends `updated`
+ * message for the method, the documents are reset to the server state.
+ * Removing a document written by a pending method, e.g. by @see simpleDDP.clearData on reconnection, changes only
+ * its server state: the document stays in the collection until the method is finished or fails.
+ * @constructor
+ * @param {simpleDDP} ddplink - simpleDDP instance.
+ */
+
+export class ddpSimulation {
+  private _ddplink: simpleDDP<any, any>;
+  private _stubs: { [name: string]: DDPStub } = {};
+  private _docs: { [collection: string]: Map<any, TrackedDocument> } = {};
+  private _methodDocs: Map<string, { collection: string, id: any }[]> = new Map();
+
+  constructor(ddplink: simpleDDP<any, any>) {
+    this._ddplink = ddplink;
+
+    ddplink.on('updated', (m: { methods?: string[] }) => {
+      if (Array.isArray(m.methods)) m.methods.forEach((methodId) => this._methodUpdated(methodId));
+    });
+  }
+
+  /**
+   * Registers method stubs.
+   * @public
+   * @param {Object} stubs - Object with stubs, keys are method names.
+   */
+  define(stubs: { [name: string]: DDPStub }) {
+    Object.assign(this._stubs, stubs);
+  }
+
+  /**
+   * Runs the stub of the method if it is defined.
+   * Errors thrown by the stub do not prevent the method from being called on the server.
+   * @public
+   * @param {string} method - Method name.
+   * @param {Array} args - Method arguments.
+   * @param {string} methodId - Id of the method call.
+   */
+  run(method: string, args: any[], methodId: string) {
+    if (!this._stubs.hasOwnProperty(method)) return;
+    const context: DDPStubContext = {
+      isSimulation: true,
+      userId: this._ddplink.userId,
+      connection: this._ddplink,
+      collection: (name) => this._writer(name, methodId)
+    };
+    try {
+      this._stubs[method].apply(context, fullCopy(args));
+    } catch (e) {
+      // the server has the final word
+    }
+  }
+
+  /**
+   * Drops writes of the method call which will never be confirmed by the server,
+   * the written documents return to their server state.
+   * @public
+   * @param {string} methodId - Id of the method call.
+   */
+  cancel(methodId: string) {
+    this._methodUpdated(methodId);
+  }
+
+  /**
+   * Applies server `added` message to the server state of a document written by stubs.
+   * @public
+   * @return {boolean} - True if the document is written by stubs, so the message must not change local collections.
+   */
+  added(collection: PropertyKey, id: any, fields: {} | undefined, merge: boolean) {
+    const tracked = this._tracked(collection, id);
+    if (!tracked) return false;
+    tracked.serverDoc = Object.assign(merge && tracked.serverDoc ? tracked.serverDoc : {}, { _id: id }, fullCopy(fields));
+    return true;
+  }
+
+  /**
+   * Applies server `changed` message to the server state of a document written by stubs.
+   * @public
+   * @return {boolean} - True if the document is written by stubs, so the message must not change local collections.
+   */
+  changed(collection: PropertyKey, id: any, fields: {} | undefined, cleared: string[] | undefined) {
+    const tracked = this._tracked(collection, id);
+    if (!tracked) return false;
+    tracked.serverDoc = Object.assign(tracked.serverDoc || { _id: id }, fullCopy(fields));
+    if (cleared) cleared.forEach((key) => delete tracked.serverDoc![key]);
+    return true;
+  }
+
+  /**
+   * Applies server `removed` message to the server state of a document written by stubs.
+   * @public
+   * @return {boolean} - True if the document is written by stubs, so the message must not change local collections.
+   */
+  removed(collection: PropertyKey, id: any) {
+    const tracked = this._tracked(collection, id);
+    if (!tracked) return false;
+    tracked.serverDoc = null;
+    return true;
+  }
+
+  /**
+   * Returns tracking info of a document written by stubs.
+   * @private
+   */
+  _tracked(collection: PropertyKey, id: any) {
+    const docs = this._docs[String(collection)];
+    return docs ? docs.get(id) : undefined;
+  }
+
+  /**
+   * Returns the index of the document in the local collection.
+   * @private
+   */
+  _indexOf(collection: string, id: any) {
+    return this._ddplink._indexOf(collection, id);
+  }
+
+  /**
+   * Remembers the server state of the document before the first write of a stub.
+   * @private
+   */
+  _track(collection: string, id: any, methodId: string) {
+    if (!this._docs.hasOwnProperty(collection)) this._docs[collection] = new Map();
+    let tracked = this._docs[collection].get(id);
+    if (!tracked) {
+      const i = this._indexOf(collection, id);
+      tracked = {
+        serverDoc: i > -1 ? fullCopy(this._ddplink.collections[collection][i]) : null,
+        methods: new Set()
+      };
+      this._docs[collection].set(id, tracked);
+    }
+    if (!tracked.methods.has(methodId)) {
+      tracked.methods.add(methodId);
+      if (!this._methodDocs.has(methodId)) this._methodDocs.set(methodId, []);
+      this._methodDocs.get(methodId)!.push({ collection, id });
+    }
+  }
+
+  /**
+   * Creates the collection writer for a stub.
+   * @private
+   */
+  _writer(collection: string, methodId: string): DDPStubCollection {
+    const find = (selector?: DDPSelector | string) => {
+      const predicate = compileSelector(selector);
+      return (this._ddplink.collections[collection] || []).filter((doc) => predicate(doc));
+    };
+
+    return {
+      find: (selector) => fullCopy(find(selector)),
+      findOne: (selector) => fullCopy(find(selector)[0]),
+      insert: (doc) => {
+        const newDoc = Object.assign({}, fullCopy(doc), { _id: doc._id || randomId() });
+        if (this._indexOf(collection, newDoc._id) > -1) throw new Error('Duplicate _id ' + newDoc._id);
+        this._track(collection, newDoc._id, methodId);
+        this._ddplink._addDocument(collection, newDoc);
+        return newDoc._id;
+      },
+      update: (selector, modifier) => {
+        const docs = find(selector);
+        docs.forEach((doc) => {
+          this._track(collection, doc._id, methodId);
+          this._setDocument(collection, applyModifier(doc, modifier));
+        });
+        return docs.length;
+      },
+      remove: (selector) => {
+        const docs = find(selector);
+        docs.forEach((doc) => {
+          this._track(collection, doc._id, methodId);
+          this._ddplink._removeDocument(collection, this._indexOf(collection, doc._id));
+        });
+        return docs.length;
+      }
+    };
+  }
+
+  /**
+   * Makes the local document equal to the passed state. Passing null removes the document.
+   * @private
+   */
+  _setDocument(collection: string, newDoc: { _id: any, [key: string]: any } | null, id = newDoc && newDoc._id) {
+    const i = this._indexOf(collection, id);
+    if (i < 0) {
+      if (newDoc) this._ddplink._addDocument(collection, fullCopy(newDoc));
+    } else if (!newDoc) {
+      this._ddplink._removeDocument(collection, i);
+    } else {
+      const doc = this._ddplink.collections[collection][i];
+      const fields: { [key: string]: any } = {};
+      Object.keys(newDoc).forEach((key) => {
+        if (key != '_id' && !EJSON.equals(doc[key], newDoc[key])) fields[key] = fullCopy(newDoc[key]);
+      });
+      const cleared = Object.keys(doc).filter((key) => !newDoc.hasOwnProperty(key));
+      if (Object.keys(fields).length || cleared.length) {
+        this._ddplink._changeDocument(collection, i, fields, cleared);
+      }
+    }
+  }
+
+  /**
+   * Resets documents written by the method to their server state if no other method is writing them.
+   * @private
+   */
+  _methodUpdated(methodId: string) {
+    const written = this._methodDocs.get(methodId);
+    if (!written) return;
+    this._methodDocs.delete(methodId);
+    written.forEach(({ collection, id }) => {
+      const tracked = this._tracked(collection, id);
+      if (!tracked) return;
+      tracked.methods.delete(methodId);
+      if (tracked.methods.size === 0) {
+        this._docs[collection].delete(id);
+        this._setDocument(collection, tracked.serverDoc, id);
+      }
+    });
+  }
+}
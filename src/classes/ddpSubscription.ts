@@ -6,6 +6,18 @@
  * @param {simpleDDP} ddplink - simpleDDP instance.
  */
 import simpleDDP from "../simpleDDP";
+import { watchCancel, DDPCancelOptions } from '../helpers/cancel.js';
+import { SubscriptionError } from '../errors.js';
+import { ddpOnChange } from './ddpOnChange.js';
+import { DDPEventListener } from './ddpEventListener.js';
+import { isEqual } from '../helpers/isEqual.js';
+
+/**
+ * Lifecycle of a subscription. 'pending' - waiting for `ready`, 'ready' - the data is there,
+ * 'stopped' - stopped by the client or the server, 'error' - stopped by the server with an error,
+ * 'restarting' - stopped to be started again, until `ready` of the new run.
+ */
+export type DDPSubscriptionStatus = 'pending' | 'ready' | 'stopped' | 'error' | 'restarting';
 
 export class ddpSubscription {
   private _ddplink: any;
@@ -14,6 +26,38 @@ export class ddpSubscription {
   private _nosub = false;
   private _started = false;
   private _ready = false;
+  private _status: DDPSubscriptionStatus = 'pending';
+  private _restarting = false;
+  // handles returned by `simpleDDP.sub` which hold the subscription
+  private _handles = 0;
+  private _teardownTimer: ReturnType<typeof setTimeout> | null = null;
+  // subscription with new arguments started by `update`, replaces the current one when it is ready
+  private _update: {
+    args: any[];
+    id: string;
+    resolve: () => void;
+    reject: (e: any) => void;
+    listeners: DDPEventListener[];
+  } | null = null;
+  private _statusListeners: ((status: DDPSubscriptionStatus, previous: DDPSubscriptionStatus) => void)[] = [];
+  /**
+   Error of the last `nosub` message with an error or null.
+
+   @type SubscriptionError
+   */
+  lastError: SubscriptionError | null = null;
+  /**
+   When the subscription became ready last time or null.
+
+   @type Date
+   */
+  readyAt: Date | null = null;
+  /**
+   How many times the subscription was restarted, including restarts after reconnections.
+
+   @type number
+   */
+  restartCount = 0;
 
   selfReadyEvent: {
     start: () => void
@@ -37,7 +81,7 @@ export class ddpSubscription {
 
   private subscriptionId!: string;
 
-  constructor(pubname: string, args: any[], ddplink: simpleDDP) {
+  constructor(pubname: string, args: any[], ddplink: simpleDDP<any, any>) {
     this._ddplink = ddplink;
     this.pubname = pubname;
     this.args = args;
@@ -46,14 +90,24 @@ export class ddpSubscription {
       if (m.subs.includes(<string>this.subscriptionId)) {
         this._ready = true;
         this._nosub = false;
+        this._restarting = false;
+        this.readyAt = new Date();
+        this._setStatus('ready');
       }
     });
 
-    this.selfNosubEvent = ddplink.on('nosub', (m: { id: string; }) => {
+    this.selfNosubEvent = ddplink.on('nosub', (m: { id: string; error?: any }) => {
       if (m.id == this.subscriptionId) {
         this._ready = false;
         this._nosub = true;
         this._started = false;
+        if (m.error) {
+          this._restarting = false;
+          this.lastError = this._error(m.error);
+          this._setStatus('error');
+        } else if (!this._restarting) {
+          this._setStatus('stopped');
+        }
       }
     });
 
@@ -63,38 +117,63 @@ export class ddpSubscription {
   /**
    * Runs everytime when `nosub` message corresponding to the subscription comes from the server.
    * @public
-   * @param {Function} f - Function, event handler.
+   * @param {Function} f - Function, event handler. Receives `SubscriptionError` if the server stopped the subscription with an error,
+   * otherwise the `nosub` message. Runs right away if the subscription is already stopped.
    * @return {ddpEventListener}
    */
-  onNosub(f: (m?: { id: string | undefined; error: any; }) => void) {
-    if (this.isStopped()) {
-      f();
-    } else {
-      return this._ddplink.on('nosub', (m: { id: string | undefined; error: any; }) => {
-        if (m.id == this.subscriptionId) {
-          f(m.error || m);
-        }
-      });
-    }
+  onNosub(f: (m?: SubscriptionError | { id: string | undefined; error: any; }) => void): DDPEventListener {
+    if (this.isStopped()) f();
+    return this._ddplink.on('nosub', (m: { id: string | undefined; error: any; }) => {
+      if (m.id == this.subscriptionId) {
+        f(m.error ? this._error(m.error) : m);
+      }
+    });
   }
 
   /**
    * Runs everytime when `ready` message corresponding to the subscription comes from the server.
    * @public
-   * @param {Function} f - Function, event handler.
+   * @param {Function} f - Function, event handler. Runs right away if the subscription is already ready.
    * @return {ddpEventListener}
    */
-  onReady(f: () => void) {
-    // может приходить несколько раз, нужно ли сохранять куда-то?
-    if (this.isReady()) {
-      f();
-    } else {
-      return this._ddplink.on('ready', (m: { subs: (string | undefined)[]; }) => {
-        if (m.subs.includes(this.subscriptionId)) {
-          f();
-        }
-      });
-    }
+  onReady(f: () => void): DDPEventListener {
+    if (this.isReady()) f();
+    return this._ddplink.on('ready', (m: { subs: (string | undefined)[]; }) => {
+      if (m.subs.includes(this.subscriptionId)) {
+        f();
+      }
+    });
+  }
+
+  /**
+   * Current state of the subscription: 'pending', 'ready', 'stopped', 'error' or 'restarting'.
+   * @public
+   * @type String
+   */
+  get status() {
+    return this._status;
+  }
+
+  /**
+   * Runs every time the status of the subscription changes.
+   * @public
+   * @param {Function} f - Receives the new and the previous status.
+   * @return {ddpOnChange}
+   */
+  onStatusChange(f: (status: DDPSubscriptionStatus, previous: DDPSubscriptionStatus) => void) {
+    const self = this as unknown as { [x: string]: any[] };
+    return ddpOnChange(f, self, '_statusListeners');
+  }
+
+  /**
+   * Changes the status and notifies the listeners.
+   * @private
+   */
+  _setStatus(status: DDPSubscriptionStatus) {
+    const previous = this._status;
+    if (status == previous) return;
+    this._status = status;
+    this._statusListeners.slice().forEach((f) => f(status, previous));
   }
 
   /**
@@ -118,15 +197,19 @@ export class ddpSubscription {
   /**
    * Returns a promise which resolves when subscription is ready or rejects when `nosub` message arrives.
    * @public
+   * @param {Object} [options]
+   * @param {AbortSignal} [options.signal] - Stops waiting, the promise rejects with `AbortError`. The subscription keeps going.
+   * @param {number} [options.timeout] - Stops waiting after this many ms, the promise rejects with `TimeoutError`.
    * @return {Promise}
    */
-  ready() {
+  ready({ signal, timeout }: DDPCancelOptions = {}) {
     return new Promise<void>((resolve, reject) => {
       if (this.isReady()) {
         resolve();
       } else {
         let onReady = this._ddplink.on('ready', (m: { subs: (string | undefined)[]; }) => {
           if (m.subs.includes(this.subscriptionId)) {
+            stopWatching();
             onReady.stop();
             onNosub.stop();
             resolve();
@@ -134,11 +217,18 @@ export class ddpSubscription {
         });
         let onNosub = this._ddplink.on('nosub', (m: { id: string | undefined; error: any; }) => {
           if (m.id == this.subscriptionId) {
+            stopWatching();
             onNosub.stop();
             onReady.stop();
-            reject(m.error || m);
+            reject(m.error ? this._error(m.error) :
+              new SubscriptionError('subscription-stopped', 'The subscription was stopped before it became ready', undefined, this.pubname));
           }
         });
+        const stopWatching = watchCancel({ signal, timeout }, (error) => {
+          onReady.stop();
+          onNosub.stop();
+          reject(error);
+        });
       }
     });
   }
@@ -160,7 +250,7 @@ export class ddpSubscription {
 
             onNosub.stop();
             if (m.error) {
-              reject(m.error);
+              reject(this._error(m.error));
             } else {
               resolve();
             }
@@ -201,6 +291,7 @@ export class ddpSubscription {
    * @return {Promise}
    */
   stop() {
+    this._cancelUpdate(new SubscriptionError('subscription-stopped', 'The subscription was stopped before the update became ready', undefined, this.pubname));
     if (this._started) {
       // stopping ready listener
       this.selfReadyEvent.stop();
@@ -208,10 +299,75 @@ export class ddpSubscription {
       if (!this._nosub) this._ddplink.ddpConnection.unsub(this.subscriptionId);
       this._started = false;
       this._ready = false;
+      if (!this._restarting) this._setStatus('stopped');
     }
     return this.nosub();
   }
 
+  /**
+   * Counts a new handle, starts the subscription if it is stopped and cancels the delayed stop.
+   * @private
+   */
+  _acquire() {
+    this._handles++;
+    if (this._teardownTimer !== null) {
+      clearTimeout(this._teardownTimer);
+      this._teardownTimer = null;
+    }
+    if (!this.isOn()) {
+      this.start().catch(() => {
+        // reported to the handles
+      });
+    }
+  }
+
+  /**
+   * Forgets a handle. When there are no handles left, stops the subscription after `linger` ms
+   * or removes it right away.
+   * @private
+   * @param {number} [linger=0] - Delay of the stop in ms, lets a quickly coming new handle reuse the subscription.
+   * @param {boolean} [remove=false] - Remove the subscription instead of stopping it.
+   * @return {Promise} - Resolves when the subscription is stopped, or right away if it is still in use or lingers.
+   */
+  _release(linger: number = 0, remove = false) {
+    if (this._handles > 0) this._handles--;
+    if (this._handles > 0) return Promise.resolve();
+    if (remove) {
+      if (this._teardownTimer !== null) clearTimeout(this._teardownTimer);
+      this._teardownTimer = null;
+      this.remove();
+      return Promise.resolve();
+    }
+    if (linger > 0) {
+      if (this._teardownTimer === null) {
+        this._teardownTimer = setTimeout(() => {
+          this._teardownTimer = null;
+          this.stop().catch(() => {
+          });
+        }, linger);
+      }
+      return Promise.resolve();
+    }
+    return this.stop();
+  }
+
+  /**
+   * Number of handles which hold the subscription.
+   * @private
+   */
+  _handleCount() {
+    return this._handles;
+  }
+
+  /**
+   * Converts the error sent by the server.
+   * @private
+   * @return {SubscriptionError}
+   */
+  _error(raw: any) {
+    return SubscriptionError.fromServer(raw, this.pubname);
+  }
+
   /**
    * Returns subscription id.
    * @private
@@ -236,6 +392,7 @@ export class ddpSubscription {
       if (Array.isArray(args)) this.args = args;
       this.subscriptionId = this._ddplink.ddpConnection.sub(this.pubname, this.args);
       this._started = true;
+      if (!this._restarting) this._setStatus('pending');
     }
     return this.ready();
   }
@@ -248,7 +405,13 @@ export class ddpSubscription {
    * @return {Promise}
    */
   restart(args?: any[]) {
-    return new Promise<void>((resolve, reject) => {
+    // e.g. restart after reconnection, the pending update continues with the restarted subscription
+    const update = this._cancelUpdate();
+    if (update && !Array.isArray(args)) args = update.args;
+    this.restartCount++;
+    this._restarting = true;
+    this._setStatus('restarting');
+    const restarted = new Promise<void>((resolve, reject) => {
       this.stop().then(() => {
         this.start(args).then(() => {
           resolve();
@@ -259,5 +422,79 @@ export class ddpSubscription {
         reject(e)
       });
     });
+    if (update) restarted.then(update.resolve, update.reject);
+    return restarted;
+  }
+
+  /**
+   * Changes subscription arguments without losing the data in between. Subscribes with the new arguments,
+   * waits until the new subscription is ready and only then stops the old one,
+   * so documents published by both subscriptions stay and reactive collections see only the actual delta.
+   * The old subscription keeps going if the new one fails. Starts the subscription if it is stopped.
+   * @public
+   * @param {Array} args - New subscription arguments.
+   * @return {Promise} - Resolves when the subscription with the new arguments is ready.
+   * Rejects with `SubscriptionError` if it fails or a newer update or `stop` replaces it.
+   */
+  update(args: any[]) {
+    this._cancelUpdate(new SubscriptionError('subscription-updated', 'The update was replaced by a newer one', undefined, this.pubname));
+    if (!this._started) return this.start(args);
+    if (isEqual(args, this.args)) return this.ready();
+    return new Promise<void>((resolve, reject) => {
+      const id = this._ddplink.ddpConnection.sub(this.pubname, args);
+      const listeners = [
+        this._ddplink.on('ready', (m: { subs: (string | undefined)[]; }) => {
+          if (m.subs.includes(id)) this._finishUpdate();
+        }),
+        this._ddplink.on('nosub', (m: { id: string | undefined; error: any; }) => {
+          if (m.id == id) {
+            listeners.forEach((listener) => listener.stop());
+            this._update = null;
+            reject(m.error ? this._error(m.error) :
+              new SubscriptionError('subscription-stopped', 'The subscription was stopped before it became ready', undefined, this.pubname));
+          }
+        })
+      ];
+      this._update = { args, id, resolve, reject, listeners };
+    });
+  }
+
+  /**
+   * Replaces the current subscription with the updated one which became ready.
+   * @private
+   */
+  _finishUpdate() {
+    const { args, id, resolve, listeners } = this._update!;
+    listeners.forEach((listener) => listener.stop());
+    this._update = null;
+    const previousId = this.subscriptionId;
+    const previousGoing = this._started && !this._nosub;
+    this.subscriptionId = id;
+    this.args = args;
+    this._started = true;
+    this._nosub = false;
+    this._ready = true;
+    this.readyAt = new Date();
+    this.selfReadyEvent.start();
+    this._setStatus('ready');
+    // `nosub` of the old subscription does not match the new id and is ignored
+    if (previousGoing) this._ddplink.ddpConnection.unsub(previousId);
+    resolve();
+  }
+
+  /**
+   * Unsubscribes the pending update.
+   * @private
+   * @param {Error} [error] - Rejects the promise of the update, otherwise the caller settles it.
+   * @return {Object|null} - The cancelled update.
+   */
+  _cancelUpdate(error?: Error) {
+    const update = this._update;
+    if (!update) return null;
+    this._update = null;
+    update.listeners.forEach((listener) => listener.stop());
+    this._ddplink.ddpConnection.unsub(update.id);
+    if (error) update.reject(error);
+    return update;
   }
 }
@@ -0,0 +1,148 @@
+import { ddpSubscription } from './ddpSubscription.js';
+import { ddpSubscriptionHandle } from './ddpSubscriptionHandle.js';
+import { DDPEventListener } from './ddpEventListener.js';
+import { DDPCancelOptions } from '../helpers/cancel.js';
+import { SubscriptionError, SubscriptionGroupError } from '../errors.js';
+
+/**
+ * Subscriptions handled together.
+ * @constructor
+ * @param {Array} subs - Subscriptions of the group.
+ */
+
+export class ddpSubscriptionGroup {
+  /**
+   Subscriptions of the group.
+
+   @type Array
+   */
+  readonly subs: (ddpSubscriptionHandle | ddpSubscription)[];
+
+  constructor(subs: (ddpSubscriptionHandle | ddpSubscription)[]) {
+    this.subs = subs;
+  }
+
+  /**
+   * Returns a promise which resolves when all subscriptions are ready.
+   * Rejects with `SubscriptionGroupError` as soon as a subscription fails, subscriptions which are not ready yet do not hold it back.
+   * @public
+   * @param {Object} [options] - `{signal, timeout}` like in @see ddpSubscription.ready.
+   * @return {Promise}
+   */
+  ready(options?: DDPCancelOptions) {
+    return this._all((sub) => sub.ready(options));
+  }
+
+  /**
+   * Returns true if all subscriptions are ready otherwise false.
+   * @public
+   * @return {boolean}
+   */
+  isReady() {
+    return this.subs.every((sub) => sub.isReady());
+  }
+
+  /**
+   * Runs every time the group becomes ready, i.e. the last not ready subscription becomes ready.
+   * @public
+   * @param {Function} f - Function, event handler. Runs right away if the group is already ready.
+   * @return {ddpEventListener}
+   */
+  onReady(f: () => void): DDPEventListener {
+    if (this.isReady()) f();
+    return this._listen((sub) => sub.onStatusChange((status) => {
+      if (status == 'ready' && this.isReady()) f();
+    }));
+  }
+
+  /**
+   * Runs every time a subscription of the group is stopped by the server.
+   * @public
+   * @param {Function} f - Function, event handler. Receives what @see ddpSubscription.onNosub passes and the subscription.
+   * @return {ddpEventListener}
+   */
+  onNosub(f: (m: SubscriptionError | { id: string | undefined; error: any; } | undefined, sub: ddpSubscriptionHandle | ddpSubscription) => void): DDPEventListener {
+    return this._listen((sub) => {
+      // only new `nosub` messages, not the current state
+      let started = false;
+      const listener = sub.onNosub((m) => {
+        if (started) f(m, sub);
+      });
+      started = true;
+      return listener;
+    });
+  }
+
+  /**
+   * Stops all subscriptions.
+   * @public
+   * @return {Promise} - Resolves when all subscriptions are stopped.
+   */
+  stop() {
+    return Promise.all(this.subs.map((sub) => sub.stop())).then(() => {
+    });
+  }
+
+  /**
+   * Starts all subscriptions.
+   * @public
+   * @return {Promise} - Resolves when all subscriptions are ready, rejects like @see ready.
+   */
+  start() {
+    return this._all((sub) => sub.start());
+  }
+
+  /**
+   * Restarts subscriptions of the group, optionally with new arguments.
+   * Without `args` restarts every subscription, otherwise only the subscriptions which get new arguments.
+   * @public
+   * @param {Array|Object} [args] - Arguments of every subscription in the order of `subs`, missing entries are skipped,
+   * or an object with arguments keyed by publication name.
+   * @return {Promise} - Resolves when the restarted subscriptions are ready again, rejects like @see ready.
+   * @example
+   * // a page of other list
+   * page.restart({tasks: [listId], comments: [listId]});
+   */
+  restart(args?: (any[] | undefined)[] | { [pubname: string]: any[] }) {
+    if (!args) return this._all((sub) => sub.restart());
+    const newArgs = this.subs.map((sub, i) => Array.isArray(args) ? args[i] : args.hasOwnProperty(sub.pubname) ? args[sub.pubname] : undefined);
+    const restarted = this.subs.filter((sub, i) => newArgs[i]);
+    return this._all((sub) => sub.restart(newArgs[this.subs.indexOf(sub)]), restarted);
+  }
+
+  /**
+   * Completely removes all subscriptions.
+   * @public
+   */
+  remove() {
+    this.subs.forEach((sub) => sub.remove());
+  }
+
+  /**
+   * Resolves when promises of all subscriptions resolve, rejects with the first error of a subscription.
+   * @private
+   */
+  _all(f: (sub: ddpSubscriptionHandle | ddpSubscription) => Promise<void>, subs = this.subs) {
+    return new Promise<void>((resolve, reject) => {
+      let left = subs.length;
+      if (!left) resolve();
+      subs.forEach((sub) => {
+        f(sub).then(() => {
+          if (--left == 0) resolve();
+        }, (e) => reject(new SubscriptionGroupError([e])));
+      });
+    });
+  }
+
+  /**
+   * Combines listeners of all subscriptions in one handle.
+   * @private
+   */
+  _listen(listen: (sub: ddpSubscriptionHandle | ddpSubscription) => DDPEventListener): DDPEventListener {
+    const listeners = this.subs.map(listen);
+    return {
+      start: () => listeners.forEach((listener) => listener.start()),
+      stop: () => listeners.forEach((listener) => listener.stop())
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import simpleDDP from "../simpleDDP";
+import { ddpSubscription, DDPSubscriptionStatus } from './ddpSubscription.js';
+import { DDPEventListener } from './ddpEventListener.js';
+import { DDPCancelOptions } from '../helpers/cancel.js';
+import { SubscriptionError } from '../errors.js';
+import { isEqual } from '../helpers/isEqual.js';
+
+/**
+ * Handle of a subscription returned by @see simpleDDP.sub. Subscriptions with the same publication and arguments are shared,
+ * the subscription stops only when all its handles are stopped (after `subscriptionLinger` ms).
+ * @constructor
+ * @param {ddpSubscription} subscription - Subscription.
+ * @param {simpleDDP} ddplink - simpleDDP instance.
+ */
+
+// listener of the handle, it moves with the handle to another subscription
+type DDPHandleListener = {
+  listen: (subscription: ddpSubscription) => DDPEventListener;
+  listener: DDPEventListener;
+};
+
+export class ddpSubscriptionHandle {
+  private _ddplink: simpleDDP<any, any>;
+  private _subscription: ddpSubscription;
+  private _released = false;
+  private _listeners: DDPHandleListener[] = [];
+
+  constructor(subscription: ddpSubscription, ddplink: simpleDDP<any, any>) {
+    this._ddplink = ddplink;
+    this._subscription = subscription;
+  }
+
+  /**
+   * The shared subscription.
+   * @public
+   * @type ddpSubscription
+   */
+  get subscription() {
+    return this._subscription;
+  }
+
+  // the same as in the shared subscription
+  get pubname() {
+    return this._subscription.pubname;
+  }
+
+  get args() {
+    return this._subscription.args;
+  }
+
+  get subscriptionId() {
+    return this._subscription._getId();
+  }
+
+  get status(): DDPSubscriptionStatus {
+    return this._released ? 'stopped' : this._subscription.status;
+  }
+
+  get lastError() {
+    return this._subscription.lastError;
+  }
+
+  get readyAt() {
+    return this._subscription.readyAt;
+  }
+
+  get restartCount() {
+    return this._subscription.restartCount;
+  }
+
+  /**
+   * @see ddpSubscription.ready
+   * @public
+   */
+  ready(options?: DDPCancelOptions) {
+    return this._subscription.ready(options);
+  }
+
+  /**
+   * @see ddpSubscription.nosub
+   * @public
+   */
+  nosub() {
+    return this._subscription.nosub();
+  }
+
+  /**
+   * @see ddpSubscription.isReady
+   * @public
+   */
+  isReady() {
+    return !this._released && this._subscription.isReady();
+  }
+
+  /**
+   * Returns true if the handle or the subscription is stopped otherwise false.
+   * @public
+   * @return {boolean}
+   */
+  isStopped() {
+    return this._released || this._subscription.isStopped();
+  }
+
+  /**
+   * Returns true if the handle holds the subscription and the subscription is active otherwise false.
+   * @public
+   * @return {boolean}
+   */
+  isOn() {
+    return !this._released && this._subscription.isOn();
+  }
+
+  /**
+   * @see ddpSubscription.onReady, the listener follows the handle when it moves to another subscription.
+   * @public
+   */
+  onReady(f: () => void): DDPEventListener {
+    return this._listen((subscription) => subscription.onReady(f));
+  }
+
+  /**
+   * @see ddpSubscription.onNosub, the listener follows the handle when it moves to another subscription.
+   * @public
+   */
+  onNosub(f: (m?: SubscriptionError | { id: string | undefined; error: any; }) => void): DDPEventListener {
+    return this._listen((subscription) => subscription.onNosub(f));
+  }
+
+  /**
+   * @see ddpSubscription.onStatusChange, the listener follows the handle when it moves to another subscription.
+   * @public
+   */
+  onStatusChange(f: (status: DDPSubscriptionStatus, previous: DDPSubscriptionStatus) => void): DDPEventListener {
+    return this._listen((subscription) => subscription.onStatusChange(f));
+  }
+
+  /**
+   * Stops the handle. The subscription stops when all its handles are stopped.
+   * @public
+   * @return {Promise} - Resolves when the subscription is stopped, or right away if other handles still use it or it lingers.
+   */
+  stop() {
+    if (this._released) return Promise.resolve();
+    this._released = true;
+    return this._subscription._release(this._ddplink.subscriptionLinger);
+  }
+
+  /**
+   * Stops the handle. The subscription is removed right away when all its handles are stopped.
+   * @public
+   */
+  remove() {
+    if (this._released) return;
+    this._released = true;
+    this._subscription._release(0, true);
+  }
+
+  /**
+   * Starts the stopped handle again.
+   * Returns a promise which resolves when the subscription is ready.
+   * @public
+   * @param {Array} [args] - Subscription arguments.
+   * @return {Promise}
+   */
+  start(args?: any[]) {
+    if (Array.isArray(args) && !isEqual(args, this.args)) return this._switch(args);
+    if (this._released) {
+      this._released = false;
+      this._subscription._acquire();
+    }
+    return this._subscription.start();
+  }
+
+  /**
+   * Restarts the subscription. A subscription shared with other handles is not changed when arguments change,
+   * the handle moves to the subscription with the new arguments.
+   * Returns a promise which resolves when the subscription is ready.
+   * @public
+   * @param {Array} [args] - Subscription arguments.
+   * @return {Promise}
+   */
+  restart(args?: any[]) {
+    if (Array.isArray(args) && !isEqual(args, this.args) && this._subscription._handleCount() > 1) return this._switch(args);
+    return this._subscription.restart(args);
+  }
+
+  /**
+   * Changes arguments without losing the data in between, like @see ddpSubscription.update.
+   * A subscription shared with other handles is not changed, the handle moves to the subscription with the new arguments
+   * and lets the old one go once the new one is ready. The handle returns to the old subscription if the new one fails.
+   * @public
+   * @param {Array} args - New subscription arguments.
+   * @return {Promise} - Resolves when the subscription with the new arguments is ready.
+   */
+  update(args: any[]) {
+    if (this._released || isEqual(args, this.args)) return this.start(args);
+    const shared = this._subscription._handleCount() > 1 || this._ddplink.subs.some((sub) => {
+      return sub.pubname == this.pubname && isEqual(sub.args, args);
+    });
+    if (!shared) return this._subscription.update(args);
+
+    const previous = this._subscription;
+    const next = this._ddplink._acquireSubscription(this.pubname, args);
+    this._moveTo(next);
+    return next.ready().then(() => {
+      previous._release(this._ddplink.subscriptionLinger).catch(() => {
+      });
+    }, (e) => {
+      // the handle may be stopped or updated again in the meantime
+      if (this._subscription === next && !this._released) {
+        this._moveTo(previous);
+        next._release().catch(() => {
+        });
+      } else {
+        previous._release(this._ddplink.subscriptionLinger).catch(() => {
+        });
+      }
+      throw e;
+    });
+  }
+
+  /**
+   * Returns subscription id.
+   * @private
+   */
+  _getId() {
+    return this._subscription._getId();
+  }
+
+  /**
+   * Starts a listener on the subscription of the handle.
+   * @private
+   */
+  _listen(listen: (subscription: ddpSubscription) => DDPEventListener): DDPEventListener {
+    const entry: DDPHandleListener = { listen, listener: listen(this._subscription) };
+    this._listeners.push(entry);
+    return {
+      start: () => {
+        if (this._listeners.includes(entry)) return;
+        entry.listener = listen(this._subscription);
+        this._listeners.push(entry);
+      },
+      stop: () => {
+        const i = this._listeners.indexOf(entry);
+        if (i < 0) return;
+        this._listeners.splice(i, 1);
+        entry.listener.stop();
+      }
+    };
+  }
+
+  /**
+   * Makes the subscription the subscription of the handle, listeners of the handle move to it.
+   * @private
+   */
+  _moveTo(subscription: ddpSubscription) {
+    this._subscription = subscription;
+    this._listeners.forEach((entry) => {
+      entry.listener.stop();
+      entry.listener = entry.listen(subscription);
+    });
+  }
+
+  /**
+   * Moves the handle to the subscription with other arguments.
+   * @private
+   */
+  _switch(args: any[]) {
+    const previous = this._subscription;
+    const released = this._released;
+    this._moveTo(this._ddplink._acquireSubscription(this.pubname, args));
+    this._released = false;
+    if (!released) previous._release(this._ddplink.subscriptionLinger).catch(() => {
+    });
+    return this._subscription.ready();
+  }
+}
@@ -2,9 +2,12 @@ import EventEmitter from "wolfy87-eventemitter";
 import Queue from "./queue";
 import Socket from "./socket";
 import { generateId } from "./utils";
+import { reconnectDelay, ReconnectStrategy } from "./reconnect";
 import { SimpleDDPConnectOptions } from "../simpleDDP";
+import { ConnectionError, ConnectionLostError } from "../errors";
 
-const DDP_VERSION = "1";
+// Versions supported by this client, most preferred first
+const DDP_VERSIONS = ["1", "pre2", "pre1"];
 const PUBLIC_EVENTS = [
   // Subscription messages
   "ready", "nosub", "added", "changed", "removed",
@@ -14,6 +17,31 @@ const PUBLIC_EVENTS = [
   "error"
 ];
 const DEFAULT_RECONNECT_INTERVAL = 10000;
+const DEFAULT_HEARTBEAT_TIMEOUT = 15000;
+
+export type DDPLatency = {
+  // round trip time of the last ping in ms
+  last: number | null;
+  min: number | null;
+  max: number | null;
+  average: number | null;
+  samples: number;
+}
+
+/**
+ * What happens to a method call sent before the connection was lost, if its result has not arrived.
+ * 'never' - the call fails with `ConnectionLostError`, 'onReconnect' - the call is sent again after every reconnection,
+ * number - the call is sent again at most this many times.
+ */
+export type DDPRetryPolicy = 'never' | 'onReconnect' | number;
+
+export type DDPMethodOptions = {
+  retry?: DDPRetryPolicy;
+  // sent as `randomSeed`, a Meteor server generates the same document ids for the same seed, so a replay does not duplicate data
+  randomSeed?: string;
+};
+
+type DDPMethodMessage = { msg: "method"; id: string; method: string; params: any[]; randomSeed?: string };
 
 type DDPConnectOptions = {
   cleanQueue: boolean;
@@ -38,8 +66,30 @@ export default class DDP extends EventEmitter {
   autoReconnect: boolean;
   autoReconnectUserValue: boolean;
   reconnectInterval: number;
+  reconnectStrategy: ReconnectStrategy | undefined;
+  reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  heartbeatInterval: number;
+  heartbeatTimeout: number;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingPings: Map<string, { sentAt: number, timer: ReturnType<typeof setTimeout> }> = new Map();
+  private pingCounter = 0;
+  latency: DDPLatency = { last: null, min: null, max: null, average: null, samples: 0 };
   messageQueue: Queue<(message: any) => boolean>;
   socket: Socket;
+  // version proposed in the `connect` message
+  version: string;
+  supportedVersions: string[];
+  // version agreed with the server, null while not connected
+  negotiatedVersion: string | null = null;
+  private versionRetry = false;
+  // method calls sent to the server and waiting for the result
+  private inFlight: Map<string, DDPMethodMessage> = new Map();
+  // how many times the method call may be sent again
+  private retriesLeft: Map<string, number> = new Map();
+  // whether the queue waits after `connected` until `releaseQueue`, e.g. until the login is resumed
+  holdQueueOnConnect = false;
+  private queueHeld = false;
 
 
   // @ts-ignore
@@ -64,16 +114,28 @@ export default class DDP extends EventEmitter {
     this.autoReconnect = options.autoReconnect !== false;
     this.autoReconnectUserValue = this.autoReconnect;
     this.reconnectInterval = options.reconnectInterval || DEFAULT_RECONNECT_INTERVAL;
+    this.reconnectStrategy = options.reconnectStrategy;
+
+    // Heartbeat is off unless `heartbeatInterval` is set
+    this.heartbeatInterval = options.heartbeatInterval || 0;
+    this.heartbeatTimeout = options.heartbeatTimeout || DEFAULT_HEARTBEAT_TIMEOUT;
 
     this.messageQueue = new Queue(message => {
-      if (this.status === "connected") {
+      // a held queue lets only `login` through, the other messages wait until the user is logged in again
+      const held = this.queueHeld && !(message.msg === "method" && message.method === "login");
+      if (this.status === "connected" && !held) {
         this.socket.send(message);
+        if (message.msg === "method") this.inFlight.set(message.id, message);
         return true;
       } else {
         return false;
       }
     });
 
+    this.supportedVersions = options.ddpSupport && options.ddpSupport.length ? options.ddpSupport.slice() : DDP_VERSIONS.slice();
+    this.version = options.ddpVersion || this.supportedVersions[0];
+    if (!this.supportedVersions.includes(this.version)) this.supportedVersions.unshift(this.version);
+
     this.socket = new Socket(options.SocketConstructor, options.endpoint);
 
     this.socket.on("open", () => {
@@ -81,8 +143,8 @@ export default class DDP extends EventEmitter {
       // to establish the DDP connection
       let params = {
         msg: "connect",
-        version: DDP_VERSION,
-        support: [DDP_VERSION],
+        version: this.version,
+        support: this.supportedVersions,
         session: undefined
       };
       if (this.sessionId) params.session = this.sessionId;
@@ -92,28 +154,42 @@ export default class DDP extends EventEmitter {
     this.socket.on("close", () => {
       let oldStatus = this.status;
       this.status = "disconnected";
-      if (this.cleanQueue) this.messageQueue.empty();
+      this.negotiatedVersion = null;
+      this.stopHeartbeat();
+      // nothing is sent before the version is agreed, the calls wait for the retry
+      if (!this.versionRetry) this.onConnectionLost();
       if (oldStatus != "disconnected") this.emit("disconnected");
-      if (this.autoReconnect) {
-        // Schedule a reconnection
-        setTimeout(
-          this.socket.open.bind(this.socket),
-          this.reconnectInterval
-        );
+      if (this.versionRetry) {
+        // The server has suggested another version, trying it right away
+        this.versionRetry = false;
+        this.socket.open();
+      } else if (this.autoReconnect) {
+        this.scheduleReconnect();
       }
     });
 
-    this.socket.on("message:in", (message: { msg: string; session: null; id: any; }) => {
+    this.socket.on("message:in", (message: { msg: string; session: null; id: any; version: string; }) => {
       if (message.msg === "connected") {
         this.status = "connected";
+        this.negotiatedVersion = this.version;
+        this.reconnectAttempt = 0;
         this.sessionId = message.session ? message.session : null;
+        this.queueHeld = this.holdQueueOnConnect;
         this.messageQueue.process();
+        this.startHeartbeat();
         this.emit("connected", message);
       } else if (message.msg === "ping") {
         // Reply with a `pong` message to prevent the server from
         // closing the connection
         this.socket.send({ msg: "pong", id: message.id });
+      } else if (message.msg === "failed") {
+        this.onVersionFailed(message.version);
+      } else if (message.msg === "pong") {
+        this.onPong(message.id);
+      } else if (message.msg === "error") {
+        this.onError(message as unknown as { reason: string; offendingMessage?: any });
       } else if (PUBLIC_EVENTS.includes(message.msg)) {
+        if (message.msg === "result") this.methodSettled(message.id);
         this.emit(message.msg, message);
       }
     });
@@ -126,9 +202,44 @@ export default class DDP extends EventEmitter {
 
   connect() {
     this.autoReconnect = this.autoReconnectUserValue;
+    this.reconnectAttempt = 0;
+    this.cancelReconnect();
     this.socket.open();
   }
 
+  scheduleReconnect() {
+    this.cancelReconnect();
+    this.reconnectAttempt++;
+    const delay = reconnectDelay(this.reconnectStrategy, this.reconnectAttempt, this.reconnectInterval);
+    if (delay === false) {
+      this.emit("reconnectFailed", { attempts: this.reconnectAttempt - 1 });
+      return;
+    }
+    this.emit("reconnecting", { attempt: this.reconnectAttempt, delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.socket.open();
+    }, delay);
+  }
+
+  cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /*
+  *   Skips the delay of the scheduled reconnection, e.g. when the browser
+  *   reports it is back online. Does nothing if no reconnection is scheduled.
+  */
+  reconnectNow() {
+    if (this.reconnectTimer) {
+      this.cancelReconnect();
+      this.socket.open();
+    }
+  }
+
 
   disconnect() {
     /*
@@ -140,9 +251,105 @@ export default class DDP extends EventEmitter {
     this.autoReconnectUserValue = this.autoReconnect;
     this.autoReconnect = false;
     this.sessionId = null;
+    this.cancelReconnect();
     this.socket.close();
   }
 
+  /*
+  *   The server answers `failed` when it does not support the proposed
+  *   version and suggests its own. If we support it, we reconnect with it,
+  *   otherwise there is no way to talk to the server and the queued method
+  *   calls fail with the mismatch error.
+  */
+  onVersionFailed(serverVersion: string) {
+    if (serverVersion !== this.version && this.supportedVersions.includes(serverVersion)) {
+      this.version = serverVersion;
+      this.versionRetry = true;
+      this.socket.close();
+    } else {
+      const error = Object.assign(new ConnectionError("DDP version mismatch: the server wants " + serverVersion +
+        ", the client supports " + this.supportedVersions.join(", ")), {
+        serverVersion,
+        supportedVersions: this.supportedVersions
+      });
+      this.disconnect();
+      this.failQueuedMethods(error);
+      this.emit("versionMismatch", error);
+    }
+  }
+
+  /*
+  *   The server answers `error` to messages it does not understand.
+  *   A method call which caused it fails with the same error, otherwise it would wait forever.
+  */
+  onError({ reason, offendingMessage }: { reason: string; offendingMessage?: any }) {
+    const error = new ConnectionError(reason, offendingMessage);
+    this.emit("error", error);
+    const methodId = offendingMessage && offendingMessage.msg === "method" ? offendingMessage.id : undefined;
+    if (methodId !== undefined && this.inFlight.has(methodId)) {
+      this.methodSettled(methodId);
+      this.emit("result", { msg: "result", id: methodId, error });
+    }
+  }
+
+  /*
+  *   The server may disappear without closing the connection (mobile networks,
+  *   sleeping laptops). To notice it we ping the server every `heartbeatInterval`
+  *   ms and close the socket if a `pong` does not come in `heartbeatTimeout` ms,
+  *   so the usual reconnection kicks in.
+  */
+  startHeartbeat() {
+    this.stopHeartbeat();
+    if (this.heartbeatInterval > 0) {
+      this.heartbeatTimer = setInterval(() => this.ping(), this.heartbeatInterval);
+    }
+  }
+
+  stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.pendingPings.forEach(({ timer }) => clearTimeout(timer));
+    this.pendingPings.clear();
+  }
+
+  ping() {
+    if (this.status !== "connected") return;
+    const id = "heartbeat-" + (this.pingCounter++);
+    const timer = setTimeout(() => {
+      this.pendingPings.delete(id);
+      this.socket.close(true);
+    }, this.heartbeatTimeout);
+    this.pendingPings.set(id, { sentAt: Date.now(), timer });
+    this.socket.send({ msg: "ping", id });
+  }
+
+  onPong(id: string) {
+    const ping = this.pendingPings.get(id);
+    if (!ping) return;
+    clearTimeout(ping.timer);
+    this.pendingPings.delete(id);
+
+    const rtt = Date.now() - ping.sentAt;
+    const { samples, average, min, max } = this.latency;
+    this.latency = {
+      last: rtt,
+      min: min === null ? rtt : Math.min(min, rtt),
+      max: max === null ? rtt : Math.max(max, rtt),
+      average: average === null ? rtt : (average * samples + rtt) / (samples + 1),
+      samples: samples + 1
+    };
+  }
+
+  /*
+  *   Sends the messages held since the connection was established.
+  */
+  releaseQueue() {
+    this.queueHeld = false;
+    this.messageQueue.process();
+  }
+
   pauseQueue() {
     this.messageQueue.pause();
   }
@@ -151,17 +358,97 @@ export default class DDP extends EventEmitter {
     this.messageQueue.continue();
   }
 
-  method(name: string, params: any[], atBeginning = false) {
+  method(name: string, params: any[], atBeginning = false, options: DDPMethodOptions = {}) {
     const id = generateId();
-    this.messageQueue[atBeginning ? 'unshift' : 'push']({
+    const message: DDPMethodMessage = {
       msg: "method",
       id: id,
       method: name,
       params: params
-    });
+    };
+    if (options.randomSeed !== undefined) message.randomSeed = options.randomSeed;
+    const retry = options.retry === undefined ? 'never' : options.retry;
+    this.retriesLeft.set(id, retry === 'onReconnect' ? Infinity : retry === 'never' ? 0 : Math.max(0, retry));
+    this.messageQueue[atBeginning ? 'unshift' : 'push'](message);
     return id;
   }
 
+  /*
+  *   Forgets the method call: an unsent call is removed from the queue and
+  *   will never reach the server, a sent call is not retried anymore.
+  *   Returns true if the call was not sent yet.
+  */
+  cancelMethod(id: string) {
+    this.methodSettled(id);
+    return this.messageQueue.remove((message) => message.msg === "method" && message.id === id);
+  }
+
+  /*
+  *   Method calls sent to the server which have no result yet, in the order they were sent.
+  */
+  methodsInFlight() {
+    return Array.from(this.inFlight.values());
+  }
+
+  methodSettled(id: string) {
+    this.inFlight.delete(id);
+    this.retriesLeft.delete(id);
+  }
+
+  /*
+  *   Methods sent before the connection was lost may or may not have run on
+  *   the server. They are sent again, before the queued messages, if their
+  *   retry policy allows it, otherwise they fail with `ConnectionLostError`.
+  *   With `cleanQueue` unsent method calls are dropped and fail as well,
+  *   unless they may be retried.
+  */
+  onConnectionLost() {
+    const failed: DDPMethodMessage[] = [];
+    const resent: DDPMethodMessage[] = [];
+    this.inFlight.forEach((message, id) => {
+      const left = this.retriesLeft.get(id) || 0;
+      if (left > 0) {
+        this.retriesLeft.set(id, left - 1);
+        resent.push(message);
+      } else {
+        failed.push(message);
+      }
+    });
+    this.inFlight.clear();
+
+    if (this.cleanQueue) {
+      const kept = this.messageQueue.toArray().filter((message) => {
+        if (message.msg !== "method") return false;
+        if (this.retriesLeft.get(message.id)) return true;
+        failed.push(message);
+        return false;
+      });
+      this.messageQueue.empty();
+      kept.forEach((message) => this.messageQueue.push(message));
+    }
+
+    resent.reverse().forEach((message) => this.messageQueue.unshift(message));
+    failed.forEach(({ id, method }) => {
+      this.methodSettled(id);
+      this.emit("result", { msg: "result", id, error: new ConnectionLostError(method, id) });
+    });
+  }
+
+  /*
+  *   Removes method calls from the queue, they fail with the error.
+  */
+  failQueuedMethods(error: ConnectionError) {
+    const messages = this.messageQueue.toArray();
+    const failed = messages.filter((message) => message.msg === "method");
+    if (!failed.length) return;
+    this.messageQueue.empty();
+    messages.filter((message) => message.msg !== "method").forEach((message) => this.messageQueue.push(message));
+    failed.forEach(({ id }) => {
+      this.methodSettled(id);
+      this.emit("result", { msg: "result", id, error });
+    });
+  }
+
   sub(name: string, params: any[], id = generateId()) {
     this.messageQueue.push({
       msg: "sub",
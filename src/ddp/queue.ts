@@ -9,6 +9,7 @@ export class Queue<Q> {
   private readonly consumer: any;
   private paused: boolean;
   private queue: any[];
+  private listeners: (() => void)[] = [];
 
   constructor(consumer: Q) {
     this.consumer = consumer;
@@ -27,11 +28,13 @@ export class Queue<Q> {
 
   push<T>(element: T) {
     this.queue.push(element);
+    this.changed();
     this.process();
   }
 
   unshift<T>(element: T) {
     this.queue.unshift(element);
+    this.changed();
     this.process();
   }
 
@@ -40,6 +43,7 @@ export class Queue<Q> {
       const ack = this.consumer(this.queue[0]);
       if (ack) {
         this.queue.shift();
+        this.changed();
         if (!this.paused) this.process();
       }
     }
@@ -47,6 +51,39 @@ export class Queue<Q> {
 
   empty() {
     this.queue = [];
+    this.changed();
+  }
+
+  /*
+  *   Removes the first element which satisfies `predicate`.
+  *   Returns true if an element was removed.
+  */
+  remove(predicate: (element: any) => boolean) {
+    const i = this.queue.findIndex(predicate);
+    if (i < 0) return false;
+    this.queue.splice(i, 1);
+    this.changed();
+    return true;
+  }
+
+  toArray() {
+    return this.queue.slice();
+  }
+
+  /*
+  *   Runs `listener` every time an element is added to or removed from the queue.
+  *   Returns a function which removes the listener.
+  */
+  onChange(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      const i = this.listeners.indexOf(listener);
+      if (i > -1) this.listeners.splice(i, 1);
+    };
+  }
+
+  private changed() {
+    this.listeners.forEach((listener) => listener());
   }
 
 }
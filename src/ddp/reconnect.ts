@@ -0,0 +1,49 @@
+export type ReconnectBackoffOptions = {
+  // delay before the first attempt, default is `reconnectInterval`
+  initialDelay?: number;
+  // upper bound of the delay, default 60000
+  maxDelay?: number;
+  // multiplier of the delay after each failed attempt, default 2
+  factor?: number;
+  // part of the delay (from 0 to 1) which is randomized, default 0.5
+  jitter?: number;
+  // attempts to make before giving up, default Infinity
+  maxAttempts?: number;
+}
+
+/*
+*   A strategy is either backoff options or a function, which receives
+*   the attempt number (starting with 1) and returns the delay in ms
+*   or `false` to stop reconnecting.
+*/
+export type ReconnectStrategy = ReconnectBackoffOptions | ((attempt: number) => number | false);
+
+const DEFAULT_MAX_DELAY = 60000;
+const DEFAULT_FACTOR = 2;
+const DEFAULT_JITTER = 0.5;
+
+export function reconnectDelay(strategy: ReconnectStrategy | undefined, attempt: number, reconnectInterval: number): number | false {
+  if (strategy === undefined) {
+    // the old behaviour: fixed interval forever
+    return reconnectInterval;
+  }
+
+  if (typeof strategy === 'function') {
+    const delay = strategy(attempt);
+    return typeof delay === 'number' && delay >= 0 ? delay : false;
+  }
+
+  const {
+    initialDelay = reconnectInterval,
+    maxDelay = DEFAULT_MAX_DELAY,
+    factor = DEFAULT_FACTOR,
+    jitter = DEFAULT_JITTER,
+    maxAttempts = Infinity
+  } = strategy;
+
+  if (attempt > maxAttempts) return false;
+
+  const delay = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt - 1));
+  const randomPart = delay * Math.min(Math.max(jitter, 0), 1) * Math.random();
+  return Math.round(delay - randomPart);
+}
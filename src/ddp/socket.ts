@@ -2,10 +2,31 @@ import EventEmitter from "wolfy87-eventemitter";
 import EJSON from "ejson";
 import { run } from "./utils";
 
+/*
+*   Receives a message and passes it, changed or not, to `next`.
+*   Not calling `next` drops the message. `next` may be called later,
+*   then the following messages may overtake the message.
+*/
+export type DDPMiddleware<M = any> = (message: M, next: (message: M) => void) => void;
+
+function runMiddleware(middleware: DDPMiddleware[], message: any, done: (message: any) => void) {
+  const step = (i: number, current: any) => {
+    if (i < middleware.length) {
+      middleware[i](current, (next) => step(i + 1, next));
+    } else {
+      done(current);
+    }
+  };
+  step(0, message);
+}
+
 export default class Socket extends EventEmitter {
   private readonly endpoint: string;
   private readonly SocketConstructor: typeof WebSocket;
   private rawSocket: WebSocket | null;
+  // run on parsed incoming messages before `message:in` and on outgoing messages before sending
+  inbound: DDPMiddleware[] = [];
+  outbound: DDPMiddleware[] = [];
 
   constructor(SocketConstructor: typeof WebSocket, endpoint: string) {
     super();
@@ -15,6 +36,18 @@ export default class Socket extends EventEmitter {
   }
 
   send(object: any) {
+    if (!this.outbound.length) {
+      this.sendNow(object);
+      return;
+    }
+    // Middleware gets a copy, the caller may keep the object (e.g. to send it again)
+    runMiddleware(this.outbound.slice(), EJSON.clone(object), (message) => {
+      // The socket may be closed while asynchronous middleware works
+      if (this.rawSocket) this.sendNow(message);
+    });
+  }
+
+  private sendNow(object: any) {
     const message: string = EJSON.stringify(object);
     this.rawSocket!.send(message);
     // Emit a copy of the object, as the listener might mutate it.
@@ -81,17 +114,31 @@ export default class Socket extends EventEmitter {
       // Outside the try-catch block as it must only catch EJSON parsing
       // errors, not errors that may occur inside a "message:in" event
       // handler
-      this.emit("message:in", object);
+      runMiddleware(this.inbound.slice(), object, (message) => this.emit("message:in", message));
     };
 
   }
 
-  close() {
+  close(force = false) {
     /*
     *   Avoid throwing an error if `rawSocket === null`
     */
     if (this.rawSocket) {
-      this.rawSocket.close();
+      if (force) {
+        /*
+        *   A dead connection may never finish the closing handshake, so
+        *   we dispose of the socket right away instead of waiting for
+        *   `onclose`, like it is done in `onerror`.
+        */
+        this.rawSocket.onclose = null;
+        this.rawSocket.onerror = null;
+        this.rawSocket.onmessage = null;
+        this.rawSocket.close();
+        this.rawSocket = null;
+        this.emit("close");
+      } else {
+        this.rawSocket.close();
+      }
     }
   }
 }
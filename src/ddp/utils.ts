@@ -6,6 +6,20 @@ export function generateId() {
 
 }
 
+// characters of Meteor ids, without the ones which are easy to confuse
+const UNMISTAKABLE_CHARS = "23456789ABCDEFGHJKLMNPQRSTWXYZabcdefghijkmnopqrstuvwxyz"
+
+// ids of documents inserted by method stubs and idempotency keys of method calls
+export function randomId(length = 17) {
+
+  let result = ""
+  for (let i = 0; i < length; i++) {
+    result += UNMISTAKABLE_CHARS.charAt(Math.floor(Math.random() * UNMISTAKABLE_CHARS.length))
+  }
+  return result
+
+}
+
 type Maybe<T> = T | null | undefined
 
 export function run<T>(runnable: () => T): [Maybe<T>, Maybe<Error>] {
@@ -0,0 +1,242 @@
+import EJSON from "ejson";
+
+/**
+ * Error sent by the server, has the same fields as `Meteor.Error`.
+ * @constructor
+ * @param {string|number} error - Error code, e.g. 403 or 'not-authorized'.
+ * @param {string} [reason] - Human readable description.
+ * @param {*} [details] - Additional information.
+ */
+
+export class DDPError extends Error {
+  error: string | number;
+  reason?: string;
+  details?: any;
+  // errors thrown by methods and publications are sent to the client only if they are client safe,
+  // the rest arrive as 500 'Internal server error'
+  isClientSafe = true;
+  errorType = 'Meteor.Error';
+
+  constructor(error: string | number, reason?: string, details?: any) {
+    super(reason ? reason + ' [' + error + ']' : '[' + error + ']');
+    this.name = 'DDPError';
+    this.error = error;
+    if (reason !== undefined) this.reason = reason;
+    if (details !== undefined) this.details = details;
+  }
+
+  typeName() {
+    return this.name;
+  }
+
+  toJSONValue(): { [field: string]: any } {
+    return { error: this.error, reason: this.reason, details: this.details, isClientSafe: this.isClientSafe };
+  }
+}
+
+// copies fields of the error object sent by the server, which may also be a plain string
+function fromServer<E extends DDPError>(e: E, raw: any) {
+  if (raw && typeof raw === 'object' && raw.isClientSafe === false) e.isClientSafe = false;
+  return e;
+}
+
+function serverFields(raw: any): [string | number, string | undefined, any] {
+  if (raw && typeof raw === 'object') return [raw.error, raw.reason, raw.details];
+  return [raw, undefined, undefined];
+}
+
+/**
+ * Error of a method call sent by the server.
+ * @constructor
+ * @param {string|number} error - Error code.
+ * @param {string} [reason] - Human readable description.
+ * @param {*} [details] - Additional information.
+ * @param {string} [method] - Method name.
+ */
+
+export class DDPMethodError extends DDPError {
+  method?: string;
+
+  constructor(error: string | number, reason?: string, details?: any, method?: string) {
+    super(error, reason, details);
+    this.name = 'DDPMethodError';
+    if (method !== undefined) this.method = method;
+  }
+
+  /**
+   * Creates the error from the `error` field of `result` message.
+   * @public
+   * @param {Object|string} raw - Error sent by the server.
+   * @param {string} [method] - Method name.
+   * @return {DDPMethodError}
+   */
+  static fromServer(raw: any, method?: string) {
+    return fromServer(new DDPMethodError(...serverFields(raw), method), raw);
+  }
+
+  toJSONValue() {
+    return Object.assign(super.toJSONValue(), { method: this.method });
+  }
+}
+
+/**
+ * Error of a subscription sent by the server with `nosub` message,
+ * or the subscription stopped before it became ready.
+ * @constructor
+ * @param {string|number} error - Error code.
+ * @param {string} [reason] - Human readable description.
+ * @param {*} [details] - Additional information.
+ * @param {string} [pubname] - Publication name.
+ */
+
+export class SubscriptionError extends DDPError {
+  pubname?: string;
+
+  constructor(error: string | number, reason?: string, details?: any, pubname?: string) {
+    super(error, reason, details);
+    this.name = 'SubscriptionError';
+    if (pubname !== undefined) this.pubname = pubname;
+  }
+
+  /**
+   * Creates the error from the `error` field of `nosub` message.
+   * @public
+   * @param {Object|string} raw - Error sent by the server.
+   * @param {string} [pubname] - Publication name.
+   * @return {SubscriptionError}
+   */
+  static fromServer(raw: any, pubname?: string) {
+    return fromServer(new SubscriptionError(...serverFields(raw), pubname), raw);
+  }
+
+  toJSONValue() {
+    return Object.assign(super.toJSONValue(), { pubname: this.pubname });
+  }
+}
+
+/**
+ * Some subscriptions of a group failed.
+ * @constructor
+ * @param {Array} errors - Errors of the failed subscriptions.
+ */
+
+export class SubscriptionGroupError extends Error {
+  errors: Error[];
+
+  constructor(errors: Error[]) {
+    super(errors.length + (errors.length == 1 ? ' subscription' : ' subscriptions') + ' of the group failed: ' +
+      errors.map((e) => e.message).join(', '));
+    this.name = 'SubscriptionGroupError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Problem of the connection itself: the server did not understand a message (`error` message),
+ * there is no common DDP version, the connection was lost.
+ * @constructor
+ * @param {string} reason - Description.
+ * @param {Object} [offendingMessage] - Message of the client which caused the error.
+ */
+
+export class ConnectionError extends Error {
+  reason: string;
+  offendingMessage?: any;
+
+  constructor(reason: string, offendingMessage?: any) {
+    super(reason);
+    this.name = 'ConnectionError';
+    this.reason = reason;
+    if (offendingMessage !== undefined) this.offendingMessage = offendingMessage;
+  }
+
+  typeName() {
+    return this.name;
+  }
+
+  toJSONValue(): { [field: string]: any } {
+    return { reason: this.reason, offendingMessage: this.offendingMessage };
+  }
+}
+
+/**
+ * The connection was lost after the method call was sent and before its result arrived.
+ * The method may or may not have run on the server.
+ * @constructor
+ * @param {string} method - Method name.
+ * @param {string} methodId - Id of the method call.
+ */
+
+export class ConnectionLostError extends ConnectionError {
+  method: string;
+  methodId: string;
+
+  constructor(method: string, methodId: string) {
+    super("Connection lost before the result of '" + method + "' method arrived");
+    this.name = 'ConnectionLostError';
+    this.method = method;
+    this.methodId = methodId;
+  }
+
+  toJSONValue() {
+    return { method: this.method, methodId: this.methodId };
+  }
+}
+
+/**
+ * The operation was cancelled with `AbortSignal`.
+ * @constructor
+ * @param {*} [reason] - `reason` of the signal.
+ */
+
+export class AbortError extends Error {
+  reason: any;
+
+  constructor(reason?: any) {
+    super('The operation was aborted');
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * The operation did not finish in time. The message is kept as 'MAX_TIMEOUT_REACHED' for compatibility.
+ * @constructor
+ * @param {number} timeout - Timeout in ms.
+ */
+
+export class TimeoutError extends Error {
+  timeout: number;
+
+  constructor(timeout: number) {
+    super('MAX_TIMEOUT_REACHED');
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+
+  typeName() {
+    return this.name;
+  }
+
+  toJSONValue() {
+    return { timeout: this.timeout };
+  }
+}
+
+// errors survive `exportData` and other EJSON serialization, e.g. when they are kept in documents
+const types: { [name: string]: (json: any) => any } = {
+  DDPError: (json) => fromServer(new DDPError(json.error, json.reason, json.details), json),
+  DDPMethodError: (json) => fromServer(new DDPMethodError(json.error, json.reason, json.details, json.method), json),
+  SubscriptionError: (json) => fromServer(new SubscriptionError(json.error, json.reason, json.details, json.pubname), json),
+  ConnectionError: (json) => new ConnectionError(json.reason, json.offendingMessage),
+  ConnectionLostError: (json) => new ConnectionLostError(json.method, json.methodId),
+  TimeoutError: (json) => new TimeoutError(json.timeout)
+};
+
+Object.keys(types).forEach((name) => {
+  // another copy of the library may have registered the types already
+  try {
+    EJSON.addType(name, types[name]);
+  } catch (e) {
+  }
+});
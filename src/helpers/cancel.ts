@@ -0,0 +1,46 @@
+import { AbortError, TimeoutError } from '../errors';
+
+/**
+ * Options of operations which may be cancelled.
+ * `signal` cancels the operation with `AbortError`, `timeout` in ms cancels it with `TimeoutError`.
+ */
+export type DDPCancelOptions = {
+  signal?: AbortSignal;
+  timeout?: number;
+};
+
+/**
+ * Calls `cancel` once the signal aborts or the timeout passes, synchronously if the signal is already aborted.
+ * @param {Object} options - `{signal, timeout}`.
+ * @param {Function} cancel - Receives `AbortError` or `TimeoutError`.
+ * @return {Function} - Stops watching, call it when the operation is done.
+ */
+export function watchCancel({ signal, timeout }: DDPCancelOptions, cancel: (error: AbortError | TimeoutError) => void) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const stop = () => {
+    clearTimeout(timer);
+    if (signal && onAbort) signal.removeEventListener('abort', onAbort);
+  };
+
+  if (signal) {
+    if (signal.aborted) {
+      cancel(new AbortError(signal.reason));
+      return stop;
+    }
+    onAbort = () => {
+      stop();
+      cancel(new AbortError(signal.reason));
+    };
+    signal.addEventListener('abort', onAbort);
+  }
+  if (timeout) {
+    timer = setTimeout(() => {
+      stop();
+      cancel(new TimeoutError(timeout));
+    }, timeout);
+  }
+
+  return stop;
+}
@@ -42,6 +42,7 @@ export const isEqual = <T1 extends any[] | {}, T2 extends any[] | {}>(value: T1,
 
     }
 
+    return true;
   };
 
   // Compare properties
@@ -0,0 +1,281 @@
+import EJSON from "ejson";
+
+/**
+ * Mongo-style selector, e.g. `{age: {$gt: 18}, 'address.city': {$in: ['Paris', 'Rome']}}`.
+ */
+export type DDPSelector = {
+  [field: string]: any;
+}
+
+/**
+ * Mongo-style sort specifier, e.g. `{createdAt: -1, name: 1}` or `[['createdAt', 'desc'], ['name', 'asc']]`.
+ */
+export type DDPSortSpecifier =
+  { [field: string]: 1 | -1 }
+  | ([string, 'asc' | 'desc' | 1 | -1] | string)[];
+
+/**
+ * Mongo-style projection, e.g. `{title: 1, 'author.name': 1}` to include fields or `{body: 0}` to exclude them.
+ */
+export type DDPProjection = {
+  [field: string]: 0 | 1 | boolean;
+}
+
+const isPlainObject = (x: any) => x !== null && typeof x === 'object' && !Array.isArray(x) &&
+  !(x instanceof Date) && !(x instanceof RegExp);
+
+const isOperatorObject = (x: any) => isPlainObject(x) && Object.keys(x).length > 0 &&
+  Object.keys(x).every((key) => key[0] === '$');
+
+/**
+ * Collects all values that can be found at the dotted path of the document.
+ * Arrays met along the way are traversed like in Mongo, so `a.b` of `{a: [{b: 1}, {b: 2}]}` gives `[1, 2]`.
+ * @private
+ */
+function lookup(doc: any, parts: string[]): any[] {
+  if (parts.length === 0) return [doc];
+  if (doc === null || typeof doc !== 'object') return [undefined];
+
+  const [first, ...rest] = parts;
+
+  if (Array.isArray(doc)) {
+    const values: any[] = [];
+    if (/^\d+$/.test(first)) values.push(...lookup(doc[Number(first)], rest));
+    doc.forEach((el) => {
+      if (isPlainObject(el)) values.push(...lookup(el, parts));
+    });
+    return values.length ? values : [undefined];
+  }
+
+  return lookup(doc[first], rest);
+}
+
+// the order in which Mongo sorts values of different types
+function typeOrder(v: any) {
+  if (v === null || v === undefined) return 0;
+  if (typeof v === 'number') return 1;
+  if (typeof v === 'string') return 2;
+  if (v instanceof Date) return 8;
+  if (typeof v === 'boolean') return 7;
+  if (Array.isArray(v)) return 4;
+  return 3;
+}
+
+function compareValues(a: any, b: any): number {
+  const ta = typeOrder(a), tb = typeOrder(b);
+  if (ta !== tb) return ta - tb;
+  switch (ta) {
+    case 0:
+      return 0;
+    case 1:
+    case 7:
+    case 8:
+      return Number(a) - Number(b);
+    case 2:
+      return a < b ? -1 : (a > b ? 1 : 0);
+    default:
+      // objects and arrays are compared by their EJSON representation
+      const sa = EJSON.stringify(a, { canonical: true }), sb = EJSON.stringify(b, { canonical: true });
+      return sa < sb ? -1 : (sa > sb ? 1 : 0);
+  }
+}
+
+// values for comparison operators, an array matches if any of its elements matches
+const withElements = (v: any) => Array.isArray(v) ? [v, ...v] : [v];
+
+function equals(v: any, x: any) {
+  if (x instanceof RegExp) return withElements(v).some((el) => typeof el === 'string' && x.test(el));
+  if (x === null && v === undefined) return true;
+  return withElements(v).some((el) => EJSON.equals(el, x));
+}
+
+function comparable(v: any, x: any) {
+  return typeOrder(v) === typeOrder(x) && typeOrder(x) !== 0;
+}
+
+type ValueMatcher = (values: any[]) => boolean;
+
+const OPERATORS: { [op: string]: (operand: any, operators: DDPSelector) => ValueMatcher } = {
+  $eq: (x) => (values) => values.some((v) => equals(v, x)),
+  $ne: (x) => (values) => !values.some((v) => equals(v, x)),
+  $in: (list) => {
+    if (!Array.isArray(list)) throw new Error('$in needs an array');
+    return (values) => values.some((v) => list.some((x) => equals(v, x)));
+  },
+  $nin: (list) => {
+    if (!Array.isArray(list)) throw new Error('$nin needs an array');
+    return (values) => !values.some((v) => list.some((x) => equals(v, x)));
+  },
+  $gt: (x) => (values) => values.some((v) => withElements(v).some((el) => comparable(el, x) && compareValues(el, x) > 0)),
+  $gte: (x) => (values) => values.some((v) => withElements(v).some((el) => comparable(el, x) && compareValues(el, x) >= 0)),
+  $lt: (x) => (values) => values.some((v) => withElements(v).some((el) => comparable(el, x) && compareValues(el, x) < 0)),
+  $lte: (x) => (values) => values.some((v) => withElements(v).some((el) => comparable(el, x) && compareValues(el, x) <= 0)),
+  $exists: (x) => (values) => values.some((v) => v !== undefined) === !!x,
+  $regex: (x, operators) => {
+    const re = x instanceof RegExp ? x : new RegExp(x, operators.$options || '');
+    return (values) => values.some((v) => equals(v, re));
+  },
+  $options: () => () => true,
+  $size: (n) => (values) => values.some((v) => Array.isArray(v) && v.length === n),
+  $all: (list) => {
+    if (!Array.isArray(list)) throw new Error('$all needs an array');
+    return (values) => list.length > 0 && list.every((x) => values.some((v) => equals(v, x)));
+  },
+  $elemMatch: (sub) => {
+    // {$elemMatch: {$gt: 1}} matches the elements themselves, {$elemMatch: {a: 1}} matches them as documents
+    if (isOperatorObject(sub)) {
+      const matcher = compileValueMatcher(sub);
+      return (values) => values.some((v) => Array.isArray(v) && v.some((el) => matcher([el])));
+    }
+    const matcher = compileSelector(sub);
+    return (values) => values.some((v) => Array.isArray(v) && v.some((el) => isPlainObject(el) && matcher(el)));
+  },
+  $not: (sub) => {
+    const matcher = sub instanceof RegExp || !isOperatorObject(sub) ? OPERATORS.$eq(sub, {}) : compileValueMatcher(sub);
+    return (values) => !matcher(values);
+  }
+};
+
+function compileValueMatcher(operand: any): ValueMatcher {
+  if (!isOperatorObject(operand)) return OPERATORS.$eq(operand, {});
+  const matchers = Object.keys(operand).map((op) => {
+    if (!OPERATORS.hasOwnProperty(op)) throw new Error('Unsupported selector operator: ' + op);
+    return OPERATORS[op](operand[op], operand);
+  });
+  return (values) => matchers.every((m) => m(values));
+}
+
+/**
+ * Compiles a Mongo-style selector to a predicate function.
+ * Supports `$eq`, `$ne`, `$in`, `$nin`, `$gt`, `$gte`, `$lt`, `$lte`, `$exists`, `$regex`, `$size`, `$all`,
+ * `$elemMatch`, `$not`, `$and`, `$or`, `$nor` and dotted paths. A string selector matches a document by its `_id`.
+ * @param {Object|string} selector - Mongo-style selector.
+ * @return {Function} - Function which receives a document and returns true if the document matches the selector.
+ */
+export function compileSelector(selector: DDPSelector | string | undefined | null): (doc: any) => boolean {
+  if (selector === undefined || selector === null) return () => true;
+  if (typeof selector === 'string') return (doc) => doc && doc._id == selector;
+
+  const matchers = Object.keys(selector).map((key): (doc: any) => boolean => {
+    const operand = selector[key];
+    if (key === '$and' || key === '$or' || key === '$nor') {
+      if (!Array.isArray(operand) || operand.length === 0) throw new Error(key + ' needs a non-empty array');
+      const subs = operand.map(compileSelector);
+      if (key === '$and') return (doc) => subs.every((s) => s(doc));
+      if (key === '$or') return (doc) => subs.some((s) => s(doc));
+      return (doc) => !subs.some((s) => s(doc));
+    }
+    if (key[0] === '$') throw new Error('Unsupported selector operator: ' + key);
+    const parts = key.split('.');
+    const matcher = compileValueMatcher(operand);
+    return (doc) => matcher(lookup(doc, parts));
+  });
+
+  return (doc) => matchers.every((m) => m(doc));
+}
+
+/**
+ * Compiles a Mongo-style sort specifier to a comparator function which can be passed to `Array.prototype.sort`.
+ * @param {Object|Array} spec - Mongo-style sort specifier.
+ * @return {Function} - Comparator function.
+ */
+export function compileSort(spec: DDPSortSpecifier): (a: any, b: any) => number {
+  const keys: [string[], number][] = Array.isArray(spec) ?
+    spec.map((s) => typeof s === 'string' ?
+      [s.split('.'), 1] :
+      [s[0].split('.'), s[1] === 'desc' || s[1] === -1 ? -1 : 1]) :
+    Object.keys(spec).map((key) => [key.split('.'), spec[key] === -1 ? -1 : 1]);
+
+  // for arrays the smallest element is used in ascending order and the largest in descending order
+  const sortValue = (doc: any, parts: string[], direction: number) => {
+    const values: any[] = [];
+    lookup(doc, parts).forEach((v) => values.push(...(Array.isArray(v) && v.length ? v : [v])));
+    return values.reduce((acc, v) => compareValues(v, acc) * direction < 0 ? v : acc);
+  };
+
+  return (a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const [parts, direction] = keys[i];
+      const r = compareValues(sortValue(a, parts, direction), sortValue(b, parts, direction));
+      if (r !== 0) return r * direction;
+    }
+    return 0;
+  };
+}
+
+type ProjectionTree = { [field: string]: ProjectionTree | true };
+
+function includeFields(doc: any, tree: ProjectionTree) {
+  const result: any = {};
+  Object.keys(tree).forEach((key) => {
+    if (!doc.hasOwnProperty(key)) return;
+    const value = doc[key];
+    const sub = tree[key];
+    if (sub === true) {
+      result[key] = value;
+    } else if (Array.isArray(value)) {
+      // like in Mongo, only embedded documents stay in arrays
+      result[key] = value.filter(isPlainObject).map((el) => includeFields(el, sub));
+    } else if (isPlainObject(value)) {
+      result[key] = includeFields(value, sub);
+    }
+  });
+  return result;
+}
+
+function excludeFields(doc: any, tree: ProjectionTree) {
+  const result: any = Object.assign({}, doc);
+  Object.keys(tree).forEach((key) => {
+    if (!result.hasOwnProperty(key)) return;
+    const value = result[key];
+    const sub = tree[key];
+    if (sub === true) {
+      delete result[key];
+    } else if (Array.isArray(value)) {
+      result[key] = value.map((el) => isPlainObject(el) ? excludeFields(el, sub) : el);
+    } else if (isPlainObject(value)) {
+      result[key] = excludeFields(value, sub);
+    }
+  });
+  return result;
+}
+
+/**
+ * Compiles a Mongo-style projection to a function which returns a new document with the projected fields.
+ * `_id` is included unless it is excluded explicitly. Including and excluding fields can not be mixed, except for `_id`.
+ * @param {Object} fields - Mongo-style projection.
+ * @return {Function} - Function which receives a document and returns the projected document.
+ */
+export function compileProjection(fields: DDPProjection): (doc: any) => any {
+  const paths = Object.keys(fields).filter((key) => key !== '_id');
+  const including = paths.length ? !!fields[paths[0]] : !!fields._id;
+  if (paths.some((path) => !!fields[path] !== including)) throw new Error('Projection can not mix including and excluding fields');
+  const keepId = fields._id === undefined || !!fields._id;
+
+  const tree: ProjectionTree = {};
+  paths.forEach((path) => {
+    let node = tree;
+    const parts = path.split('.');
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      // the whole field is already projected
+      if (node[part] === true) return;
+      if (i == parts.length - 1) {
+        node[part] = true;
+      } else {
+        node = <ProjectionTree>(node[part] = node[part] || {});
+      }
+    }
+  });
+
+  return (doc) => {
+    if (doc === null || typeof doc !== 'object') return doc;
+    const result = including ? includeFields(doc, tree) : excludeFields(doc, tree);
+    if (keepId && doc.hasOwnProperty('_id')) {
+      result._id = doc._id;
+    } else {
+      delete result._id;
+    }
+    return result;
+  };
+}
@@ -0,0 +1,80 @@
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Key-value storage used by simpleDDP to keep data between app restarts.
+ * `localStorage`, React Native `AsyncStorage` and similar objects already satisfy it.
+ */
+export type StorageAdapter = {
+  getItem(key: string): MaybePromise<string | null | undefined>;
+  setItem(key: string, value: string): MaybePromise<void>;
+  removeItem(key: string): MaybePromise<void>;
+}
+
+/**
+ * Storage which keeps everything in memory. Data is lost when the process exits.
+ * @return {StorageAdapter}
+ */
+export function memoryStorage(): StorageAdapter {
+  const items: { [key: string]: string } = {};
+
+  return {
+    getItem: (key) => items.hasOwnProperty(key) ? items[key] : null,
+    setItem: (key, value) => {
+      items[key] = value;
+    },
+    removeItem: (key) => {
+      delete items[key];
+    }
+  };
+}
+
+/**
+ * Part of Node.js `fs` module used by @see fileStorage.
+ */
+export type FileSystem = {
+  promises: {
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+    writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+    unlink(path: string): Promise<void>;
+    mkdir(path: string, options: { recursive: boolean }): Promise<any>;
+  }
+};
+
+/**
+ * Storage which keeps every item in a separate file of the directory, for Node.js and Electron apps.
+ * The `fs` module is passed explicitly, so bundlers for browsers do not try to include it.
+ * @param {string} directory - Directory for the files, created if it does not exist.
+ * @param {Object} fs - Node.js `fs` module.
+ * @return {StorageAdapter}
+ * @example
+ * const storage = fileStorage('./.simpleddp', require('fs'));
+ */
+export function fileStorage(directory: string, fs: FileSystem): StorageAdapter {
+  const path = (key: string) => directory + '/' + encodeURIComponent(key) + '.json';
+  const ready = fs.promises.mkdir(directory, { recursive: true });
+  const isMissing = (e: { code?: string }) => e && e.code === 'ENOENT';
+  const writes: { [key: string]: Promise<void> } = {};
+
+  return {
+    getItem: (key) => ready.then(() => fs.promises.readFile(path(key), 'utf8')).catch((e) => {
+      if (isMissing(e)) return null;
+      throw e;
+    }),
+    setItem: (key, value) => {
+      // writing a temporary file first, so a crash never leaves a half-written item
+      const write = () => {
+        const temporary = path(key) + '.tmp';
+        return fs.promises.writeFile(temporary, value, 'utf8').then(() => fs.promises.rename(temporary, path(key)));
+      };
+      // writes of the same key must not share the temporary file at the same time
+      const writing = (writes[key] || ready).then(write, write);
+      writes[key] = writing.catch(() => {
+      });
+      return writing;
+    },
+    removeItem: (key) => ready.then(() => fs.promises.unlink(path(key))).catch((e) => {
+      if (!isMissing(e)) throw e;
+    })
+  };
+}
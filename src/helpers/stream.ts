@@ -0,0 +1,196 @@
+import { DDPEventListener } from '../classes/ddpEventListener.js';
+
+export type DDPObserver<V> = {
+  next?: (value: V) => void;
+  error?: (error: any) => void;
+  complete?: () => void;
+};
+
+export type DDPUnsubscribable = {
+  unsubscribe: () => void;
+  readonly closed: boolean;
+};
+
+/**
+ * Minimal TC39 Observable, enough for `from()` of RxJS and similar libraries.
+ */
+export type DDPObservable<V> = {
+  subscribe: (observer?: DDPObserver<V> | ((value: V) => void)) => DDPUnsubscribable;
+  '@@observable': () => DDPObservable<V>;
+};
+
+// subscribes the function to changes with an existing `onChange`
+export type DDPListen<V> = (push: (value: V) => void) => DDPEventListener;
+
+// subscribes the function to the end of the source, it receives an error if the source fails
+export type DDPListenEnd = (end: (error?: any) => void) => DDPEventListener;
+
+// `Symbol.observable` exists only with a polyfill, libraries fall back to the '@@observable' key
+const observableKey: symbol | '@@observable' = (typeof Symbol === 'function' && (Symbol as { observable?: symbol }).observable) || '@@observable';
+
+/**
+ * Puts values to the buffer of an async iterator when the consumer is slower than the changes.
+ * Keeps only the latest value, which is right for states where the newest one replaces the previous ones.
+ * @private
+ */
+export function latest<V>(buffer: V[], value: V) {
+  buffer.splice(0, buffer.length, value);
+}
+
+/**
+ * Puts values to the buffer of an async iterator when the consumer is slower than the changes.
+ * Keeps all values, which is right for events every one of which matters.
+ * @private
+ */
+export function queue<V>(buffer: V[], value: V) {
+  buffer.push(value);
+}
+
+/**
+ * Creates an observable from `onChange`. Every subscriber gets its own listener, `unsubscribe` stops it.
+ * Subscribers are completed when the source stops and get an error when it fails.
+ * @private
+ * @param {Function} listen - Starts a listener with `onChange`.
+ * @param {Function} [current] - Returns the current value which is sent to every new subscriber first.
+ * @param {Function} [listenEnd] - Starts a listener of the end of the source.
+ * @return {Object} - Observable.
+ */
+export function toObservable<V>(listen: DDPListen<V>, current?: () => V, listenEnd?: DDPListenEnd): DDPObservable<V> {
+  const observable: DDPObservable<V> = {
+    subscribe: (observer = {}) => {
+      const { next, error, complete } = typeof observer === 'function' ? { next: observer } as DDPObserver<V> : observer;
+      let closed = false;
+      let listener: DDPEventListener | null = null, endListener: DDPEventListener | null = null;
+      const close = () => {
+        closed = true;
+        if (listener) listener.stop();
+        if (endListener) endListener.stop();
+      };
+      const end = (e?: any) => {
+        if (closed) return;
+        close();
+        if (e !== undefined) {
+          if (error) error.call(observer, e);
+        } else if (complete) {
+          complete.call(observer);
+        }
+      };
+      try {
+        listener = listen((value) => {
+          if (!closed && next) next.call(observer, value);
+        });
+        if (listenEnd) endListener = listenEnd(end);
+        if (current && next && !closed) next.call(observer, current());
+      } catch (e) {
+        end(e);
+      }
+      return {
+        unsubscribe: () => {
+          if (!closed) close();
+        },
+        get closed() {
+          return closed;
+        }
+      };
+    },
+    '@@observable': () => observable
+  };
+  if (observableKey !== '@@observable') (observable as { [key: symbol]: () => unknown })[observableKey] = () => observable;
+  return observable;
+}
+
+/**
+ * Creates an async iterator from `onChange`. Values which come while the consumer is busy are kept in a buffer,
+ * `return` (e.g. `break` out of `for await`) stops the listener.
+ * The iteration ends after the buffered values when the source stops, it throws when the source fails.
+ * @private
+ * @param {Function} listen - Starts a listener with `onChange`.
+ * @param {Function} [current] - Returns the current value which is the first value of the iterator.
+ * @param {Function} [buffered=latest] - Puts a value to the buffer, @see latest and @see queue.
+ * @param {Function} [listenEnd] - Starts a listener of the end of the source.
+ * @return {Object} - Async iterator.
+ */
+export function toAsyncIterator<V>(listen: DDPListen<V>, current?: () => V, buffered: (buffer: V[], value: V) => void = latest,
+  listenEnd?: DDPListenEnd): AsyncIterableIterator<V> {
+  const buffer: V[] = [];
+  const waiting: { resolve: (result: IteratorResult<V>) => void, reject: (error: any) => void }[] = [];
+  let done = false;
+  // error of the source, thrown once the buffered values are taken
+  let failure: { error: any } | null = null;
+
+  const push = (value: V) => {
+    if (done) return;
+    const waiter = waiting.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+    } else {
+      buffered(buffer, value);
+    }
+  };
+  const listener = listen(push);
+  const endListener = listenEnd ? listenEnd((error?: any) => {
+    if (done) return;
+    stop();
+    // consumers wait only when the buffer is empty
+    const waiters = waiting.splice(0);
+    if (error !== undefined) {
+      const first = waiters.shift();
+      if (first) {
+        first.reject(error);
+      } else {
+        failure = { error };
+      }
+    }
+    waiters.forEach(({ resolve }) => resolve({ value: undefined, done: true }));
+  }) : null;
+  if (current) push(current());
+
+  function stop() {
+    done = true;
+    listener.stop();
+    if (endListener) endListener.stop();
+  }
+
+  const finish = (): Promise<IteratorResult<V>> => {
+    if (!done) stop();
+    failure = null;
+    buffer.length = 0;
+    waiting.splice(0).forEach(({ resolve }) => resolve({ value: undefined, done: true }));
+    return Promise.resolve({ value: undefined, done: true });
+  };
+
+  return {
+    next: () => {
+      if (buffer.length) return Promise.resolve({ value: buffer.shift()!, done: false });
+      if (failure) {
+        const { error } = failure;
+        failure = null;
+        return Promise.reject(error);
+      }
+      if (done) return Promise.resolve({ value: undefined, done: true });
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    return: finish,
+    throw: (error?: any) => finish().then(() => Promise.reject(error)),
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+}
+
+/**
+ * Adds `Symbol.observable` to the prototype if the symbol exists, the class itself has the '@@observable' method.
+ * @private
+ * @param {Object} proto - Prototype of the class.
+ */
+export function observableInterop(proto: { '@@observable': () => any }) {
+  if (observableKey !== '@@observable') {
+    Object.defineProperty(proto, observableKey, {
+      configurable: true,
+      writable: true,
+      value: function (this: typeof proto) {
+        return this['@@observable']();
+      }
+    });
+  }
+}
@@ -1,12 +1,30 @@
-import DDP from "./ddp/ddp";
+import DDP, { DDPRetryPolicy } from "./ddp/ddp";
+import { ReconnectStrategy } from "./ddp/reconnect";
+import { randomId } from "./ddp/utils";
+import {
+  AbortError, ConnectionError, ConnectionLostError, DDPError, DDPMethodError, SubscriptionError, SubscriptionGroupError, TimeoutError
+} from "./errors";
 import EJSON from "ejson";
 
 import { isEqual } from './helpers/isEqual.js';
 import { fullCopy } from './helpers/fullCopy.js';
+import { sha256 } from './helpers/sha256.js';
+import { memoryStorage, fileStorage, StorageAdapter } from './helpers/storage.js';
+import { watchCancel, DDPCancelOptions } from './helpers/cancel.js';
 
-import { ddpEventListener } from './classes/ddpEventListener.js';
-import { ddpSubscription } from './classes/ddpSubscription.js';
+import { ddpEventListener, DDPEventListener } from './classes/ddpEventListener.js';
+import { ddpSubscription, DDPSubscriptionStatus } from './classes/ddpSubscription.js';
+import { ddpSubscriptionGroup } from './classes/ddpSubscriptionGroup.js';
+import { ddpSubscriptionHandle } from './classes/ddpSubscriptionHandle.js';
+import { ddpPaginatedSubscription, SimpleDDPPaginateOptions, DDPPage } from './classes/ddpPaginatedSubscription.js';
+import { DDPObservable, DDPObserver } from './helpers/stream.js';
 import { ddpCollection } from './classes/ddpCollection.js';
+import { ddpMergeBox } from './classes/ddpMergeBox.js';
+import { ddpDocumentIndex } from './classes/ddpDocumentIndex.js';
+import { ddpBatcher, DDPBatchMode } from './classes/ddpBatcher.js';
+import { ddpSimulation, DDPStub } from './classes/ddpSimulation.js';
+import { ddpPersistence, DDPRestoredCall, SimpleDDPPersistOptions } from './classes/ddpPersistence.js';
+import { ddpPlugins, DDPLegacyHookName, SimpleDDPPlugin } from './classes/ddpPlugins.js';
 
 function uniqueIdFuncGen() {
   let idCounter = 0;
@@ -18,34 +36,113 @@ function uniqueIdFuncGen() {
 
 const simpleDDPcounter = uniqueIdFuncGen();
 
-function connectPlugins(plugins: any[], ...places: any[]) {
-  if (Array.isArray(plugins)) {
-    plugins.forEach((p) => {
-      places.forEach((place) => {
-        if (p[place]) {
-          // @ts-ignore
-          p[place].call(this);
-        }
-      });
-    });
-  }
-}
+/**
+ * Document as it is stored in local collections.
+ */
+export type DDPDocument<T> = T & { _id: string };
+
+/**
+ * Map of collection names to document types, e.g. `{tasks: Task; users: User}`.
+ */
+export type DDPSchema = { [collection: string]: any };
+
+/**
+ * Map of method names to method signatures, e.g. `{addTask: (text: string) => string}`.
+ */
+export type DDPMethods = { [method: string]: (...args: any[]) => any };
+
+/**
+ * Name of a method which is not described by the method map, so its arguments and result are not checked.
+ */
+export type DDPUntypedMethod<Methods extends DDPMethods, N extends string> = string extends N ? N : N extends keyof Methods ? never : N;
+
+export type DDPCollections<Schema extends DDPSchema> = { [K in keyof Schema]: DDPDocument<Schema[K]>[] };
+
+export type DDPConnectedMessage = { msg: 'connected'; session: string };
+export type DDPFailedMessage = { msg: 'failed'; version: string };
+export type DDPPingMessage = { msg: 'ping'; id?: string };
+export type DDPPongMessage = { msg: 'pong'; id?: string };
+export type DDPAddedMessage = { msg: 'added'; collection: string; id: string; fields?: { [field: string]: any } };
+export type DDPChangedMessage = { msg: 'changed'; collection: string; id: string; fields?: { [field: string]: any }; cleared?: string[] };
+export type DDPRemovedMessage = { msg: 'removed'; collection: string; id: string };
+export type DDPReadyMessage = { msg: 'ready'; subs: string[] };
+export type DDPNosubMessage = { msg: 'nosub'; id: string; error?: any };
+export type DDPResultMessage = { msg: 'result'; id: string; error?: any; result?: any };
+export type DDPUpdatedMessage = { msg: 'updated'; methods: string[] };
+export type DDPErrorMessage = { msg: 'error'; reason: string; offendingMessage?: any };
 
+/**
+ * Any message sent by a DDP server, discriminated by `msg` field.
+ */
 export type DDPMessage =
-  {
-    collection: PropertyKey;
-    id: any; fields: {};
-    cleared: any[];
-    f:
-      (p: { removed: boolean; added: any; changed: boolean }) => any;
-    msg: string;
-    name: string;
-    params: any[];
-    result: any;
-    sub: any;
-    subs: string | string[]
-    filter: (newObjFullCopy: { _id: any }, number: number, collection1: any[]) => any;
-  };
+  DDPConnectedMessage
+  | DDPFailedMessage
+  | DDPPingMessage
+  | DDPPongMessage
+  | DDPAddedMessage
+  | DDPChangedMessage
+  | DDPRemovedMessage
+  | DDPReadyMessage
+  | DDPNosubMessage
+  | DDPResultMessage
+  | DDPUpdatedMessage
+  | DDPErrorMessage;
+
+/**
+ * Arguments of the listeners of @see simpleDDP.on.
+ */
+export type DDPEventMap = {
+  connected: DDPConnectedMessage;
+  disconnected: undefined;
+  failed: DDPFailedMessage;
+  ping: DDPPingMessage;
+  pong: DDPPongMessage;
+  added: DDPAddedMessage;
+  changed: DDPChangedMessage;
+  removed: DDPRemovedMessage;
+  ready: DDPReadyMessage;
+  nosub: DDPNosubMessage;
+  result: DDPResultMessage;
+  updated: DDPUpdatedMessage;
+  error: ConnectionError;
+  login: SimpleDDPLoginResult;
+  loginError: Error;
+  logout: undefined;
+  reconnecting: { attempt: number; delay: number };
+  reconnectFailed: { attempts: number };
+  versionMismatch: ConnectionError & { serverVersion: string; supportedVersions: string[] };
+};
+
+export type DDPDocumentChange<D> = {
+  prev: D;
+  next: D;
+  fields: { [field: string]: number };
+  fieldsChanged: Partial<D>;
+  fieldsRemoved: string[];
+};
+
+/**
+ * Argument of collection change listeners.
+ * Listeners without a filter receive `added`, `changed` and `removed`,
+ * listeners with a filter receive `prev` and `next` (false when the document does not exist).
+ */
+export type DDPChangeEvent<D> = {
+  added?: D | false;
+  changed?: DDPDocumentChange<D> | false;
+  removed?: D | false;
+  prev?: D | false;
+  next?: D | false;
+  fields?: { [field: string]: number };
+  fieldsChanged?: Partial<D>;
+  fieldsRemoved?: string[];
+  predicatePassed?: [any, any];
+};
+
+export type DDPChangeListener = {
+  collection: string;
+  f: (event: DDPChangeEvent<DDPDocument<any>>) => any;
+  filter?: (value: DDPDocument<any>, index: number, array: DDPDocument<any>[]) => any;
+};
 
 export type SimpleDDPConnectOptions = {
   endpoint: string,
@@ -53,20 +150,65 @@ export type SimpleDDPConnectOptions = {
   autoConnect?: boolean,
   autoReconnect?: boolean,
   reconnectInterval?: number,
+  reconnectStrategy?: ReconnectStrategy,
+  heartbeatInterval?: number,
+  heartbeatTimeout?: number,
   clearDataOnReconnection?: boolean,
   maxTimeout?: number,
   cleanQueue?: boolean,
-  plugins?: any[],
+  plugins?: SimpleDDPPlugin[],
   ddpVersion?: string,
-
+  ddpSupport?: string[],
+  batch?: DDPBatchMode,
+  authStorage?: StorageAdapter,
+  authStorageKey?: string,
+  persist?: SimpleDDPPersistOptions,
+  subscriptionLinger?: number,
 }
 
+export type SimpleDDPApplyOptions = {
+  atBeginning?: boolean;
+  wait?: 'result' | 'updated' | 'both';
+  retry?: DDPRetryPolicy;
+  noRetry?: boolean;
+  idempotencyKey?: string | boolean;
+} & DDPCancelOptions;
+
+/**
+ * Pending method call. Resolves according to `wait` option,
+ * `onUpdated` resolves when all data writes of the method are reflected in `collections`.
+ */
+export type DDPMethodCall<R> = Promise<R> & {
+  onUpdated: Promise<void>;
+};
+
+export type SimpleDDPLoginOptions =
+  {
+    user: string | { username?: string; email?: string; id?: string };
+    password: string;
+  }
+  | {
+  resume: string;
+};
+
+export type SimpleDDPLoginResult = {
+  id: string;
+  token: string;
+  tokenExpires?: Date;
+};
+
 /**
  * Creates an instance of simpleDDP class. After being constructed, the instance will
  * establish a connection with the DDP server and will try to maintain it open.
+ * Optional type parameters describe documents of collections and signatures of methods.
  * @version 2.2.4
+ * @example
+ * type Task = { text: string; done: boolean };
+ * const server = new simpleDDP<{ tasks: Task }, { addTask: (text: string) => string }>(opts);
+ * server.collection('tasks').fetch(); // (Task & {_id: string})[]
+ * server.call('addTask', 'buy milk'); // DDPMethodCall<string>
  */
-class simpleDDP {
+class simpleDDP<Schema extends DDPSchema = DDPSchema, Methods extends DDPMethods = DDPMethods> {
   private _id = simpleDDPcounter();
   private _opGenId = uniqueIdFuncGen();
   private _opts: SimpleDDPConnectOptions
@@ -77,10 +219,26 @@ class simpleDDP {
 
    @type Object
    */
-  collections: {
-    [key: PropertyKey]: any[]
-  } = {};
-  onChangeFuncs: DDPMessage[] = [];
+  collections = {} as DDPCollections<Schema>;
+  onChangeFuncs: DDPChangeListener[] = [];
+  private _mergeBox = new ddpMergeBox();
+  // indexes of collection arrays, so the arrays may be replaced in `collections`
+  private _indexes = new WeakMap<any[], ddpDocumentIndex<DDPDocument<{ [field: string]: any }>>>();
+  private _simulation: ddpSimulation;
+  private _batcher: ddpBatcher;
+  private _plugins: ddpPlugins;
+  /**
+   Methods added by plugins with `extend`, bound to the instance. Every method is also available on the instance itself.
+
+   @type Object
+   */
+  readonly extensions: { [name: string]: (...args: any[]) => any } = {};
+  /**
+   Persistence of collections and method calls without a result or null if `persist` option is not set.
+
+   @type ddpPersistence
+   */
+  persistence: ddpPersistence | null;
 
   /**
    Whether the client is connected to server.
@@ -89,6 +247,12 @@ class simpleDDP {
    */
   connected = false;
   maxTimeout: number | undefined;
+  /**
+   How long in ms a subscription without handles keeps going before it stops.
+
+   @type number
+   */
+  subscriptionLinger: number;
   clearDataOnReconnection: boolean;
   tryingToConnect: boolean;
   tryingToDisconnect = false;
@@ -96,6 +260,22 @@ class simpleDDP {
   connectedEvent: { stop: () => void; start: () => void };
   connectedEventRestartSubs: { stop: () => void; start: () => void };
   disconnectedEvent: { stop: () => void; start: () => void };
+  reconnectFailedEvent: { stop: () => void; start: () => void };
+  versionMismatchEvent: { stop: () => void; start: () => void };
+  /**
+   Id of the logged in user or null.
+
+   @type String
+   */
+  userId: string | null = null;
+  /**
+   Login token of the logged in user or null.
+
+   @type String
+   */
+  token: string | null = null;
+  private _authStorage: StorageAdapter;
+  private _authStorageKey: string;
   addedEvent: { stop: () => void; start: () => void };
   changedEvent: { stop: () => void; start: () => void };
   removedEvent: { stop: () => void; start: () => void };
@@ -107,9 +287,30 @@ class simpleDDP {
    * @param {boolean} [options.autoConnect=true] - Whether to establish the connection to the server upon instantiation. When false, one can manually establish the connection with the connect method.
    * @param {boolean} [options.autoReconnect=true] - Whether to try to reconnect to the server when the socket connection closes, unless the closing was initiated by a call to the disconnect method.
    * @param {number} [options.reconnectInterval=1000] - The interval in ms between reconnection attempts.
+   * @param {Object|Function} [options.reconnectStrategy] - Exponential backoff settings `{initialDelay, maxDelay, factor, jitter, maxAttempts}`
+   * or a function which receives the attempt number and returns the delay in ms or false to stop reconnecting.
+   * Without it reconnection attempts are made every `reconnectInterval` ms forever.
+   * @param {string} [options.ddpVersion='1'] - Preferred DDP version.
+   * @param {Array} [options.ddpSupport=['1','pre2','pre1']] - DDP versions the client agrees to use, most preferred first.
+   * @param {number} [options.heartbeatInterval=0] - Interval in ms between pings sent to the server. 0 turns off the heartbeat.
+   * @param {number} [options.heartbeatTimeout=15000] - If the server does not answer a ping in this time, the connection is closed and reconnected.
    * @param {boolean} [options.clearDataOnReconnection=true] - Whether to clear all collections data after a reconnection. This invokes fake `removed` messages on every document.
    * @param {number} [options.maxTimeout=undefined] - Maximum wait for a response from the server to the method call. Default no maxTimeout.
-   * @param {Array} [plugins] - Array of plugins.
+   * @param {boolean} [options.cleanQueue=false] - Whether to drop unsent messages when the connection is lost.
+   * Method calls with a `retry` policy are kept, other dropped calls reject with `ConnectionLostError`.
+   * @param {Object} [options.authStorage] - Storage for the login token, e.g. `localStorage` or `AsyncStorage`. Default is in-memory storage.
+   * @param {string} [options.authStorageKey='simpleddp.loginToken'] - Key under which the login token is saved in `authStorage`.
+   * @param {string|boolean} [options.batch=false] - Notify reactive collections, reducers and documents once per batch of incoming data
+   * instead of after every message. 'microtask' - once the synchronously arrived messages are applied, 'frame' - once per animation frame,
+   * 'ready' - when all started subscriptions are ready.
+   * @param {number} [options.subscriptionLinger=0] - How long in ms a subscription keeps going after all its handles are stopped,
+   * so a quick unsubscribe and subscribe again, e.g. while switching between pages, does not restart it.
+   * @param {Object} [options.persist] - Keep collections and method calls without a result between app restarts
+   * `{storage, key='simpleddp', throttle=500, collections=true, methods=true}`, `storage` is e.g. `localStorage` or `fileStorage(...)`.
+   * Stored data is restored before the client connects, stored method calls are sent on connection and their results
+   * come in `persistence.restoredCalls`.
+   * @param {Array} [plugins] - Array of plugins, installed like with @see use. Legacy hooks (`init`, `beforeConnected` ... `after`)
+   * run only for plugins passed here.
    * @return {simpleDDP} - A new simpleDDP instance.
    * @example
    * var opts = {
@@ -119,19 +320,30 @@ class simpleDDP {
    * };
    * var server = new simpleDDP(opts);
    */
-  constructor(opts: SimpleDDPConnectOptions, plugins?: any[]) {
+  constructor(opts: SimpleDDPConnectOptions, plugins?: SimpleDDPPlugin[]) {
 
     this._opts = opts;
     this.ddpConnection = new DDP(opts);
+    // method calls and subscriptions wait for the resume login after every connection
+    this.ddpConnection.holdQueueOnConnect = true;
+    this._plugins = new ddpPlugins(this, (method, args, options) => this._apply(method, args, options), (pubname, args) => this._sub(pubname, args));
 
 
     this.maxTimeout = opts.maxTimeout;
+    this.subscriptionLinger = opts.subscriptionLinger || 0;
     this.clearDataOnReconnection = opts.clearDataOnReconnection === undefined ? true : opts.clearDataOnReconnection;
     this.tryingToConnect = opts.autoConnect === undefined ? true : opts.autoConnect;
     this.willTryToReconnect = opts.autoReconnect === undefined ? true : opts.autoReconnect;
+    this._authStorage = opts.authStorage || memoryStorage();
+    this._authStorageKey = opts.authStorageKey || 'simpleddp.loginToken';
+    this._simulation = new ddpSimulation(this);
+    this._batcher = new ddpBatcher(this, opts.batch);
+    this.persistence = opts.persist ? new ddpPersistence(this, opts.persist) : null;
 
-    // @ts-ignore
-    let pluginConnector = connectPlugins.bind(this, plugins);
+    const legacyPlugins = Array.isArray(plugins) ? plugins : [];
+    const pluginConnector = (...hooks: DDPLegacyHookName[]) => this._plugins._runLegacyHooks(legacyPlugins, ...hooks);
+
+    legacyPlugins.forEach((plugin) => this.use(plugin));
 
     // plugin init section
     pluginConnector('init', 'beforeConnected');
@@ -144,16 +356,26 @@ class simpleDDP {
     pluginConnector('afterConnected', 'beforeSubsRestart');
 
     this.connectedEventRestartSubs = this.on('connected', () => {
-      if (this.clearDataOnReconnection) {
-        // we have to clean local collections
-        this.clearData().then(() => {
+      // subs must not restart before the user is logged in again
+      const resumeAndRestart = () => {
+        this._resumeLogin().then(() => {
+          this.ddpConnection.releaseQueue();
           this.ddpConnection.emit('clientReady');
           this.restartSubs();
         });
-      } else {
-        this.ddpConnection.emit('clientReady');
-        this.restartSubs();
-      }
+      };
+      // stored data must not be restored over the data of the server
+      const restored = this.persistence ? this.persistence.restored : Promise.resolve();
+      restored.then(() => {
+        if (this.clearDataOnReconnection) {
+          // we have to clean local collections
+          this.clearData().then(resumeAndRestart);
+        } else {
+          // documents of the previous session will be replaced by the new `added` messages
+          this._mergeBox.reset();
+          resumeAndRestart();
+        }
+      });
     });
 
     pluginConnector('afterSubsRestart', 'beforeDisconnected');
@@ -164,16 +386,57 @@ class simpleDDP {
       this.tryingToConnect = this.willTryToReconnect;
     });
 
+    this.reconnectFailedEvent = this.on('reconnectFailed', () => {
+      this.tryingToConnect = false;
+    });
+
+    this.versionMismatchEvent = this.on('versionMismatch', () => {
+      this.tryingToConnect = false;
+    });
+
     pluginConnector('afterDisconnected', 'beforeAdded');
 
-    this.addedEvent = this.on('added', (m: DDPMessage) => this.dispatchAdded(m));
+    this.addedEvent = this.on('added', (m) => this.dispatchAdded(m));
     pluginConnector('afterAdded', 'beforeChanged');
-    this.changedEvent = this.on('changed', (m: DDPMessage) => this.dispatchChanged(m));
+    this.changedEvent = this.on('changed', (m) => this.dispatchChanged(m));
     pluginConnector('afterChanged', 'beforeRemoved');
-    this.removedEvent = this.on('removed', (m: DDPMessage) => this.dispatchRemoved(m));
+    this.removedEvent = this.on('removed', (m) => this.dispatchRemoved(m));
     pluginConnector('afterRemoved', 'after');
   }
 
+  /**
+   * Installs the plugin. Plugins may intercept incoming and outgoing messages, wrap `apply` and `sub` and add methods to the instance.
+   * Plugins with higher `priority` see messages and calls first, plugins with the same priority go in installation order.
+   * @public
+   * @param {Object} plugin - Plugin `{priority, inbound, outbound, wrapApply, wrapSub, extend, install, uninstall}`.
+   * @return {ddpEventListener} - `stop` uninstalls the plugin, `start` installs it again.
+   * @example
+   * // adds the current locale to every method call
+   * server.use({
+   *   wrapApply: (next) => (method, args = [], options) => next(method, [...args, {locale}], options)
+   * });
+   *
+   * // logs every message from the server
+   * server.use({
+   *   inbound: (message, next) => {
+   *     console.log(message);
+   *     next(message);
+   *   }
+   * });
+   */
+  use(plugin: SimpleDDPPlugin) {
+    return this._plugins.use(plugin);
+  }
+
+  /**
+   * Uninstalls the plugin.
+   * @public
+   * @param {Object} plugin - Plugin passed to @see use or to the constructor.
+   */
+  unuse(plugin: SimpleDDPPlugin) {
+    this._plugins.unuse(plugin);
+  }
+
   /**
    * Restarts all subs.
    * @private
@@ -186,52 +449,121 @@ class simpleDDP {
     });
   }
 
+  /**
+   * Untyped view of `collections` for the dispatchers.
+   * @private
+   */
+  private get _collections() {
+    return this.collections as unknown as { [name: string]: DDPDocument<{ [field: string]: any }>[] };
+  }
+
+  /**
+   * Returns the index of the collection array, creates the collection if it does not exist.
+   * @private
+   * @param {string} collection - Collection name.
+   * @return {ddpDocumentIndex}
+   */
+  _index(collection: string) {
+    if (!this._collections.hasOwnProperty(collection)) this._collections[collection] = [];
+    const docs = this._collections[collection];
+    let index = this._indexes.get(docs);
+    if (!index) {
+      index = new ddpDocumentIndex(docs);
+      this._indexes.set(docs, index);
+    }
+    return index;
+  }
+
+  /**
+   * Runs the notification of a reactive object according to the `batch` option.
+   * @private
+   * @param {Object} key - Notified object.
+   * @param {Function} f - Notification.
+   */
+  _batch(key: object, f: () => void) {
+    this._batcher.defer(key, f);
+  }
+
+  /**
+   * Drops the pending notification of a reactive object.
+   * @private
+   * @param {Object} key - Notified object.
+   */
+  _cancelBatch(key: object) {
+    this._batcher.cancel(key);
+  }
+
+  /**
+   * Returns the position of the document in the collection array.
+   * @private
+   * @param {string} collection - Collection name.
+   * @param {*} id - Document id.
+   * @return {number} - Position or -1.
+   */
+  _indexOf(collection: string, id: any) {
+    return this._collections.hasOwnProperty(collection) ? this._index(collection).indexOf(id) : -1;
+  }
+
   /**
    * Use this for fetching the subscribed data and for reactivity inside the collection.
+   * The document type is taken from the schema of the instance, or can be passed for collections outside of it.
    * @public
    * @param {string} name - Collection name.
    * @return {ddpCollection}
    */
-  collection<T>(name: string) {
-    return new ddpCollection<T>(name, this);
+  collection<K extends keyof Schema & string>(name: K): ddpCollection<Schema[K]>;
+  collection<T>(name: string): ddpCollection<T>;
+  collection(name: string): ddpCollection<any> {
+    return new ddpCollection(name, this);
   }
 
   /**
    * Dispatcher for ddp added messages.
+   * If the document is already published by another publication, new fields are merged into it.
    * @private
    * @param {Object} m - DDP message.
    */
-  dispatchAdded(m: DDPMessage) {
+  dispatchAdded(m: DDPAddedMessage | DDPChangedMessage) {
     //m везде одинаковое, стоит наверное копировать
     // m is always the same, it is probably worth copying
-    if (this.collections.hasOwnProperty(m.collection)) {
-      let i = this.collections[m.collection].findIndex((obj) => {
-        return obj._id == m.id;
-      });
-      if (i > -1) {
-        // new sub knows nothing about old sub
-        this.collections[m.collection].splice(i, 1);
+    const publishedBefore = this._mergeBox.added(m.collection, m.id, m.fields);
+    // documents written by method stubs wait for the end of the methods
+    if (this._simulation.added(m.collection, m.id, m.fields, publishedBefore > 0)) return;
+    let i = this._indexOf(m.collection, m.id);
+    if (i > -1) {
+      let cleared: string[] = [];
+      if (!publishedBefore) {
+        // new session knows nothing about old data, so fields which are not sent anymore are stale
+        cleared = Object.keys(this._collections[m.collection][i]).filter((key) => {
+          return key != '_id' && !(m.fields && m.fields.hasOwnProperty(key));
+        });
       }
+      this._changeDocument(m.collection, i, m.fields, cleared);
+      return;
     }
-    if (!this.collections.hasOwnProperty(m.collection)) this.collections[m.collection] = [];
-    let newObj = Object.assign({ _id: m.id }, m.fields);
-    let i = this.collections[m.collection].push(newObj);
+    this._addDocument(m.collection, Object.assign({ _id: m.id }, m.fields));
+  }
+
+  /**
+   * Adds the document to the collection and notifies change listeners.
+   * @private
+   * @param {string} collection - Collection name.
+   * @param {Object} newObj - New document with `_id` field.
+   */
+  _addDocument(collection: string, newObj: DDPDocument<{ [field: string]: any }>) {
+    let i = this._index(collection).push(newObj) + 1;
     let fields: {
       [key: string]: number;
     } = {};
-    if (m.fields) {
-      Object.keys(m.fields).map((p) => {
-        fields[p] = 1;
-      });
-    }
-    this.onChangeFuncs.forEach((l: DDPMessage) => {
-      if (l.collection == m.collection) {
-        let hasFilter = l.hasOwnProperty('filter');
+    Object.keys(newObj).map((p) => {
+      if (p != '_id') fields[p] = 1;
+    });
+    this.onChangeFuncs.forEach((l) => {
+      if (l.collection == collection) {
         let newObjFullCopy = fullCopy(newObj);
-        if (!hasFilter) {
+        if (!l.filter) {
           l.f({ changed: false, added: newObjFullCopy, removed: false });
-        } else if (hasFilter && l.filter(newObjFullCopy, i - 1, this.collections[m.collection])) {
-          // @ts-ignore
+        } else if (l.filter && l.filter(newObjFullCopy, i - 1, this._collections[collection])) {
           l.f({ prev: false, next: newObjFullCopy, fields, fieldsChanged: newObjFullCopy, fieldsRemoved: [] });
         }
       }
@@ -243,103 +575,132 @@ class simpleDDP {
    * @private
    * @param {Object} m - DDP message.
    */
-  dispatchChanged(m: DDPMessage) {
-    if (!this.collections.hasOwnProperty(m.collection)) this.collections[m.collection] = [];
-    let i = this.collections[m.collection].findIndex((obj) => {
-      return obj._id == m.id;
-    });
+  dispatchChanged(m: DDPChangedMessage) {
+    this._mergeBox.changed(m.collection, m.id, m.fields, m.cleared);
+    if (this._simulation.changed(m.collection, m.id, m.fields, m.cleared)) return;
+    let i = this._indexOf(m.collection, m.id);
     if (i > -1) {
-      const t = this.collections[m.collection][i];
-      let prev: typeof t = fullCopy(this.collections[m.collection][i]);
-      let fields: {
-        [key: string]: number;
-      } = {}, fieldsChanged = {}, fieldsRemoved: any[] = [];
-      if (m.fields) {
-        fieldsChanged = m.fields;
-        Object.keys(m.fields).map((p) => {
-          fields[p] = 1;
-        });
-        Object.assign(this.collections[m.collection][i], m.fields);
-      }
-      if (m.cleared) {
-        fieldsRemoved = m.cleared;
-        m.cleared.forEach((fieldName) => {
-          fields[fieldName] = 0;
-          delete this.collections[m.collection][i][fieldName];
-        });
-      }
-      let next = this.collections[m.collection][i];
-      this.onChangeFuncs.forEach((l) => {
-        if (l.collection == m.collection) {
-          // perhaps add a parameter inside l object to choose if full copy should occur
-          let hasFilter = l.hasOwnProperty('filter');
-          if (!hasFilter) {
+      this._changeDocument(m.collection, i, m.fields, m.cleared);
+    } else {
+      this.dispatchAdded(m);
+    }
+  }
+
+  /**
+   * Changes the document and notifies change listeners.
+   * @private
+   * @param {string} collection - Collection name.
+   * @param {number} i - Document index in the collection.
+   * @param {Object} [changedFields] - New values of fields.
+   * @param {Array} [clearedFields] - Names of removed fields.
+   */
+  _changeDocument(collection: string, i: number, changedFields?: { [field: string]: any }, clearedFields?: string[]) {
+    const t = this._collections[collection][i];
+    let prev: typeof t = fullCopy(this._collections[collection][i]);
+    let fields: {
+      [key: string]: number;
+    } = {}, fieldsChanged = {}, fieldsRemoved: any[] = [];
+    if (changedFields) {
+      fieldsChanged = changedFields;
+      Object.keys(changedFields).map((p) => {
+        fields[p] = 1;
+      });
+      Object.assign(this._collections[collection][i], changedFields);
+    }
+    if (clearedFields) {
+      fieldsRemoved = clearedFields;
+      clearedFields.forEach((fieldName) => {
+        fields[fieldName] = 0;
+        delete this._collections[collection][i][fieldName];
+      });
+    }
+    let next = this._collections[collection][i];
+    this.onChangeFuncs.forEach((l) => {
+      if (l.collection == collection) {
+        // perhaps add a parameter inside l object to choose if full copy should occur
+        if (!l.filter) {
+          l.f({
+            changed: { prev, next: fullCopy(next), fields, fieldsChanged, fieldsRemoved },
+            added: false,
+            removed: false
+          });
+        } else {
+          let fCopyNext = fullCopy(next);
+          let prevFilter = l.filter(prev, i, this._collections[collection]);
+          let nextFilter = l.filter(fCopyNext, i, this._collections[collection]);
+          if (prevFilter || nextFilter) {
             l.f({
-              // @ts-ignore
-              changed: { prev, next: fullCopy(next), fields, fieldsChanged, fieldsRemoved },
-              added: false,
-              removed: false
+              prev,
+              next: fCopyNext,
+              fields,
+              fieldsChanged,
+              fieldsRemoved,
+              predicatePassed: [prevFilter, nextFilter]
             });
-          } else {
-            let fCopyNext = fullCopy(next);
-            let prevFilter = l.filter(prev, i, this.collections[m.collection]);
-            let nextFilter = l.filter(fCopyNext, i, this.collections[m.collection]);
-            if (prevFilter || nextFilter) {
-              l.f({
-                // @ts-ignore
-                prev,
-                next: fCopyNext,
-                fields,
-                fieldsChanged,
-                fieldsRemoved,
-                predicatePassed: [prevFilter, nextFilter]
-              });
-            }
           }
         }
-      });
-    } else {
-      this.dispatchAdded(m);
-    }
+      }
+    });
   }
 
   /**
    * Dispatcher for ddp removed messages.
+   * The document stays in the collection while other publications still hold it,
+   * only the fields which no other publication sent are removed.
    * @private
    * @param {Object} m - DDP message.
    */
-  dispatchRemoved(m: DDPMessage) {
-    if (!this.collections.hasOwnProperty(m.collection)) this.collections[m.collection] = [];
-    let i = this.collections[m.collection].findIndex((obj) => {
-      return obj._id == m.id;
-    });
+  dispatchRemoved(m: DDPRemovedMessage) {
+    if (!this._collections.hasOwnProperty(m.collection)) this._collections[m.collection] = [];
+    const { held, fields, cleared } = this._mergeBox.removed(m.collection, m.id);
+    if (held > 0) {
+      if (!Object.keys(fields).length && !cleared.length) return;
+      if (this._simulation.changed(m.collection, m.id, fields, cleared)) return;
+      const i = this._indexOf(m.collection, m.id);
+      if (i > -1) this._changeDocument(m.collection, i, fields, cleared);
+      return;
+    }
+    if (this._simulation.removed(m.collection, m.id)) return;
+    let i = this._indexOf(m.collection, m.id);
     if (i > -1) {
-      let prevProps;
-      let removedObj = this.collections[m.collection].splice(i, 1)[0];
-      this.onChangeFuncs.forEach((l) => {
-        if (l.collection == m.collection) {
-          let hasFilter = l.hasOwnProperty('filter');
-          if (!hasFilter) {
-            // возможно стоит сделать fullCopy, чтобы было как в случае dispatchAdded и dispatchChanged
-            // perhaps you should make a fullCopy so that it is like in the case of dispatchAdded and dispatchChanged
-            l.f({ changed: false, added: false, removed: removedObj });
-          } else {
-            if (l.filter(removedObj, i, this.collections[m.collection])) {
-              // @ts-ignore
-              l.f({ prev: removedObj, next: false });
-            }
+      this._removeDocument(m.collection, i);
+    }
+  }
+
+  /**
+   * Removes the document from the collection and notifies change listeners.
+   * @private
+   * @param {string} collection - Collection name.
+   * @param {number} i - Document index in the collection.
+   */
+  _removeDocument(collection: string, i: number) {
+    let removedObj = this._index(collection).remove(i);
+    this.onChangeFuncs.forEach((l) => {
+      if (l.collection == collection) {
+        if (!l.filter) {
+          // возможно стоит сделать fullCopy, чтобы было как в случае dispatchAdded и dispatchChanged
+          // perhaps you should make a fullCopy so that it is like in the case of dispatchAdded and dispatchChanged
+          l.f({ changed: false, added: false, removed: removedObj });
+        } else {
+          if (l.filter(removedObj, i, this._collections[collection])) {
+            l.f({ prev: removedObj, next: false });
           }
         }
-      });
-    }
+      }
+    });
   }
 
   /**
    * Connects to the ddp server. The method is called automatically by the class constructor if the autoConnect option is set to true (default behavior).
    * @public
-   * @return {Promise} - Promise which resolves when connection is established.
+   * @param {Object} [options]
+   * @param {AbortSignal} [options.signal] - Stops waiting for the connection, the promise rejects with `AbortError`.
+   * @param {number} [options.timeout=maxTimeout] - Stops waiting for the connection after this many ms, the promise rejects with `TimeoutError`.
+   * @return {Promise} - Promise which resolves when connection is established. Rejects with `ConnectionError`
+   * if there is no common DDP version with the server or reconnection attempts are over.
    */
-  connect() {
+  connect({ signal, timeout = this.maxTimeout }: DDPCancelOptions = {}) {
+    if (signal && signal.aborted) return Promise.reject(new AbortError(signal.reason));
     this.willTryToReconnect = this._opts.autoReconnect === undefined ? true : this._opts.autoReconnect;
     return new Promise<void>((resolve, reject) => {
       if (!this.tryingToConnect) {
@@ -347,28 +708,66 @@ class simpleDDP {
         this.tryingToConnect = true;
       }
       if (!this.connected) {
-        let stoppingInterval: number | undefined;
+        const fail = (error: Error) => {
+          stopWatching();
+          connectionHandler.stop();
+          failureHandlers.forEach((handler) => handler.stop());
+          this.tryingToConnect = false;
+          reject(error);
+        };
 
         const connectionHandler = this.on('connected', () => {
-          clearTimeout(stoppingInterval);
+          stopWatching();
           connectionHandler.stop();
+          failureHandlers.forEach((handler) => handler.stop());
           this.tryingToConnect = false;
           resolve();
         });
 
-        if (this.maxTimeout) {
-          stoppingInterval = setTimeout(() => {
-            connectionHandler.stop();
-            this.tryingToConnect = false;
-            reject(new Error('MAX_TIMEOUT_REACHED'));
-          }, this.maxTimeout);
-        }
+        // the client gives up connecting
+        const failureHandlers = [
+          this.on('versionMismatch', fail),
+          this.on('reconnectFailed', ({ attempts }) => {
+            fail(new ConnectionError('Could not connect after ' + attempts + ' reconnection attempts'));
+          })
+        ];
+
+        const stopWatching = watchCancel({ signal, timeout }, fail);
       } else {
         resolve();
       }
     });
   }
 
+  /**
+   * DDP version agreed with the server, null while not connected.
+   * @public
+   * @type String
+   */
+  get ddpVersion() {
+    return this.ddpConnection.negotiatedVersion;
+  }
+
+  /**
+   * Round trip time statistics of heartbeat pings in ms: `{last, min, max, average, samples}`.
+   * Filled only when `heartbeatInterval` option is set.
+   * @public
+   * @type Object
+   */
+  get latency() {
+    return this.ddpConnection.latency;
+  }
+
+  /**
+   * Makes the scheduled reconnection attempt right now, e.g. when the browser reports it is back online.
+   * @public
+   * @example
+   * window.addEventListener('online', () => server.reconnectNow());
+   */
+  reconnectNow() {
+    this.ddpConnection.reconnectNow();
+  }
+
   /**
    * Disconnects from the ddp server by closing the WebSocket connection. You can listen on the disconnected event to be notified of the disconnection.
    * @public
@@ -393,13 +792,48 @@ class simpleDDP {
     });
   }
 
+  /**
+   * Defines client stubs of methods. A stub runs every time the method is called and simulates it,
+   * so the UI does not wait for the server. Writes of the stub through `this.collection(name)` are applied
+   * to local collections immediately and are replaced by the server data when the method is finished.
+   * @public
+   * @param {Object} stubs - Object with stubs, keys are method names.
+   * @example
+   * server.methods({
+   *   addTask(text) {
+   *     this.collection('tasks').insert({text, createdAt: new Date()});
+   *   },
+   *   completeTask(id) {
+   *     this.collection('tasks').update(id, {$set: {done: true}});
+   *   }
+   * });
+   */
+  methods(stubs: { [name: string]: DDPStub }) {
+    this._simulation.define(stubs);
+  }
+
   /**
    * Calls a remote method with arguments passed in array.
    * @public
    * @param {string} method - Name of the server publication.
    * @param {Array} [arguments] - Array of parameters to pass to the remote method. Pass an empty array or don't pass anything if you do not wish to pass any parameters.
-   * @param {boolean} [atBeginning=false] - If true puts method call at the beginning of the requests queue.
+   * @param {boolean|Object} [options=false] - If true puts method call at the beginning of the requests queue.
+   * @param {boolean} [options.atBeginning=false] - If true puts method call at the beginning of the requests queue.
+   * @param {string} [options.wait='result'] - When the returned promise resolves. 'result' - when the method result arrives,
+   * 'updated' - when all data writes of the method are reflected in `collections` (resolves with the result if it has already arrived),
+   * 'both' - when both the result and data writes arrive.
+   * @param {string|number} [options.retry='never'] - What happens if the connection is lost after the call is sent and before its result arrives.
+   * 'never' - the promise rejects with `ConnectionLostError`, 'onReconnect' - the call is sent again after the reconnection,
+   * number - the call is sent again at most this many times. With `cleanQueue` unsent calls which may not be retried reject too.
+   * @param {boolean} [options.noRetry=false] - Same as `retry: 'never'`, overrides `retry`.
+   * @param {string|boolean} [options.idempotencyKey] - Key sent as `randomSeed` of the call, the same for every retry, so the server can
+   * recognize a replay. Meteor generates the same document ids for the same seed. Pass true to generate a random key.
+   * @param {AbortSignal} [options.signal] - Cancels the call, the promise rejects with `AbortError`. An unsent call is removed from the queue,
+   * the result of a sent call is ignored.
+   * @param {number} [options.timeout=maxTimeout] - Cancels the call after this many ms like `signal`, the promise rejects with `TimeoutError`.
    * @return {Promise} - Promise object, which resolves when receives a result send by server and rejects when receives an error send by server.
+   * The promise has `onUpdated` property, a promise which resolves when all data writes of the method are reflected in `collections`.
+   * It rejects with `ConnectionLostError` if the connection is lost after the result and before the data writes.
    * @example
    * server.apply("method1").then(function(result) {
    *	console.log(result); //show result message in console
@@ -415,35 +849,140 @@ class simpleDDP {
    * }).catch(function(error) {
    *    console.log(result); //show error message in console
    * });
+   *
+   * // waiting until the new task is in the local collection
+   * await server.apply("addTask", [task], {wait: 'both'});
+   *
+   * // surviving a reconnection without adding the task twice
+   * await server.apply("addTask", [task], {retry: 'onReconnect', idempotencyKey: true});
+   */
+  apply<K extends keyof Methods & string>(method: K, args?: Parameters<Methods[K]>, options?: boolean | SimpleDDPApplyOptions): DDPMethodCall<Awaited<ReturnType<Methods[K]>>>;
+  apply<T extends any[], R = unknown, N extends string = string>(method: N & DDPUntypedMethod<Methods, N>, args?: T, options?: boolean | SimpleDDPApplyOptions): DDPMethodCall<R>;
+  apply(method: string, args?: any[], options: boolean | SimpleDDPApplyOptions = false): DDPMethodCall<any> {
+    return this._plugins.apply(method, args, options);
+  }
+
+  /**
+   * @see apply without plugins.
+   * @private
+   */
+  _apply(method: string, args?: any[], options: boolean | SimpleDDPApplyOptions = false): DDPMethodCall<any> {
+    const {
+      atBeginning = false, wait = 'result', retry, noRetry, idempotencyKey, signal, timeout = this.maxTimeout
+    } = typeof options === 'boolean' ? { atBeginning: options } as SimpleDDPApplyOptions : options;
+
+    if (signal && signal.aborted) {
+      // the call never reaches the server
+      const error = new AbortError(signal.reason);
+      const onUpdated = Promise.reject(error);
+      // the caller is not obliged to wait for data writes
+      onUpdated.catch(() => {
+      });
+      return Object.assign(Promise.reject(error), { onUpdated });
+    }
+
+    const methodId = this.ddpConnection.method(method, args ? args : [], atBeginning, {
+      retry: noRetry ? 'never' : retry,
+      randomSeed: idempotencyKey === true ? randomId() : idempotencyKey || undefined
+    });
+    this._simulation.run(method, args ? args : [], methodId);
+
+    return this._watchMethod(method, methodId, { wait, signal, timeout });
+  }
+
+  /**
+   * Returns the promise of a queued method call, like the one returned by @see apply.
+   * @private
+   * @param {string} method - Method name.
+   * @param {string} methodId - Id of the method call.
+   * @param {Object} options - `{wait, signal, timeout}` like in @see apply, without the default timeout.
+   * @return {Promise}
    */
-  apply<T extends any[], R>(method: string, args: T, atBeginning = false) {
-    return new Promise((resolve, reject) => {
-      const methodId = this.ddpConnection.method(method, args ? args : [], atBeginning);
-      const _self = this;
+  _watchMethod(method: string, methodId: string, { wait = 'result', signal, timeout }: Pick<SimpleDDPApplyOptions, 'wait'> & DDPCancelOptions): DDPMethodCall<any> {
+    const _self = this;
+
+    let resolveUpdated: () => void, rejectUpdated: (e: any) => void;
+    const onUpdated = new Promise<void>((resolve, reject) => {
+      resolveUpdated = resolve;
+      rejectUpdated = reject;
+    });
+    // the caller is not obliged to wait for data writes
+    onUpdated.catch(() => {
+    });
 
-      let stoppingInterval: number | undefined;
+    const call = new Promise<any>((resolve, reject) => {
+      let hasAnswer = false, hasResult = false, hasUpdated = false, result: any;
 
-      function onMethodResult(message: { id: string; error: any; result: unknown; }) {
+      function stopListening() {
+        _self.ddpConnection.removeListener('result', onMethodResult);
+        _self.ddpConnection.removeListener('updated', onMethodUpdated);
+        _self.ddpConnection.removeListener('disconnected', onDisconnected);
+      }
+
+      function finish() {
+        if ((wait == 'result' && hasResult) || (wait == 'updated' && hasUpdated) || (hasResult && hasUpdated)) {
+          stopWatching();
+          resolve(result);
+        }
+      }
+
+      function onMethodResult(message: DDPResultMessage) {
         if (message.id == methodId) {
-          clearTimeout(stoppingInterval);
+          _self.ddpConnection.removeListener('result', onMethodResult);
+          hasAnswer = true;
           if (!message.error) {
-            resolve(message.result);
+            hasResult = true;
+            result = message.result;
+            finish();
           } else {
-            reject(message.error);
+            stopWatching();
+            // errors of the connection are created by the client, errors of the method come from the server
+            const error = message.error instanceof ConnectionError ? message.error : DDPMethodError.fromServer(message.error, method);
+            if (error instanceof ConnectionError) {
+              // the server will not send `updated` for this call
+              stopListening();
+              _self._simulation.cancel(methodId);
+              rejectUpdated(error);
+            }
+            reject(error);
           }
-          _self.ddpConnection.removeListener('result', onMethodResult);
         }
       }
 
-      this.ddpConnection.on("result", onMethodResult);
+      function onMethodUpdated(message: DDPUpdatedMessage) {
+        if (message.methods.includes(methodId)) {
+          stopListening();
+          hasUpdated = true;
+          resolveUpdated();
+          finish();
+        }
+      }
 
-      if (this.maxTimeout) {
-        stoppingInterval = setTimeout(() => {
-          this.ddpConnection.removeListener('result', onMethodResult);
-          reject(new Error('MAX_TIMEOUT_REACHED'));
-        }, this.maxTimeout);
+      // the connection settles a call when it gets the result, `updated` of the call is lost with the connection
+      function onDisconnected() {
+        if (!hasAnswer) return;
+        stopListening();
+        stopWatching();
+        _self._simulation.cancel(methodId);
+        const error = new ConnectionLostError(method, methodId);
+        rejectUpdated(error);
+        reject(error);
       }
+
+      this.ddpConnection.on("result", onMethodResult);
+      this.ddpConnection.on("updated", onMethodUpdated);
+      this.ddpConnection.on("disconnected", onDisconnected);
+
+      const stopWatching = watchCancel({ signal, timeout }, (error) => {
+        stopListening();
+        // a sent call may still write data, stub writes wait for its `updated` message
+        if (this.ddpConnection.cancelMethod(methodId)) this._simulation.cancel(methodId);
+        rejectUpdated(error);
+        reject(error);
+      });
     });
+
+    return Object.assign(call, { onUpdated });
   }
 
   /**
@@ -453,31 +992,143 @@ class simpleDDP {
    * @param {string} method - Name of the server publication.
    * @param {...any} [args] - List of parameters to pass to the remote method. Parameters are passed as function arguments.
    * @return {Promise} - Promise object, which resolves when receives a result send by server and rejects when receives an error send by server.
+   * Has `onUpdated` property like the promise returned by @see apply.
+   * @example
+   * // arguments and the result are checked against the method map of the instance
+   * const server = new simpleDDP<{}, { addTask: (text: string) => string }>(opts);
+   * const taskId: string = await server.call('addTask', 'buy milk');
+   */
+  call<K extends keyof Methods & string>(method: K, ...args: Parameters<Methods[K]>): DDPMethodCall<Awaited<ReturnType<Methods[K]>>>;
+  call<TArgs extends any[], R = unknown, N extends string = string>(method: N & DDPUntypedMethod<Methods, N>, ...args: TArgs): DDPMethodCall<R>;
+  call(method: string, ...args: any[]): DDPMethodCall<any> {
+    return this.apply(method, args);
+  }
+
+  /**
+   * Logs in with a password or with a resume token.
+   * On success the login token is saved to the `authStorage` and is used to log in again after every reconnection.
+   * Emits `login` event on success and `loginError` event on failure.
+   * The token is forgotten when the server rejects it, not when the connection fails.
+   * @public
+   * @param {Object} options - `{user, password}` or `{resume}`. `user` is a username, an email or an object `{username}`, `{email}` or `{id}`.
+   * @return {Promise} - Promise which resolves with `{id, token, tokenExpires}` sent by the server.
+   * @example
+   * server.login({user: 'john', password: 'secret'}).then(({id}) => {
+   *    console.log(id, server.userId); // the same user id
+   * });
+   */
+  login(options: SimpleDDPLoginOptions) {
+    let params;
+    if ('resume' in options) {
+      params = { resume: options.resume };
+    } else {
+      params = {
+        user: typeof options.user === 'string' ?
+          (options.user.includes('@') ? { email: options.user } : { username: options.user }) :
+          options.user,
+        password: { digest: sha256(options.password), algorithm: 'sha-256' }
+      };
+    }
+    return this.apply<[typeof params], SimpleDDPLoginResult, string>('login', [params], true).then((loginResult) => {
+      this.userId = loginResult.id;
+      this.token = loginResult.token;
+      return Promise.resolve(this._authStorage.setItem(this._authStorageKey, loginResult.token)).then(() => {
+        this.ddpConnection.emit('login', loginResult);
+        return loginResult;
+      });
+    }, (e) => {
+      // only the server may tell that the token is not valid anymore, e.g. a dropped connection keeps it
+      const rejected = 'resume' in options && e instanceof DDPMethodError;
+      const clearing = rejected ? this._clearLogin() : Promise.resolve();
+      return clearing.then(() => {
+        this.ddpConnection.emit('loginError', e);
+        throw e;
+      });
+    });
+  }
+
+  /**
+   * Logs out the current user and removes the login token from the `authStorage`.
+   * Emits `logout` event.
+   * @public
+   * @return {Promise} - Promise which resolves when the user is logged out.
    */
-  call<TArgs extends any[], R = unknown>(method: string, ...args: TArgs): Promise<R> {
-    return this.apply(method, args) as Promise<R>;
+  logout() {
+    return this.apply<[], void, string>('logout', []).then(() => {
+      return this._clearLogin().then(() => {
+        this.ddpConnection.emit('logout');
+      });
+    }, (e) => {
+      // the server may fail to log us out, but locally we forget the user anyway
+      return this._clearLogin().then(() => {
+        this.ddpConnection.emit('logout');
+        throw e;
+      });
+    });
+  }
+
+  /**
+   * Forgets the logged in user.
+   * @private
+   * @return {Promise}
+   */
+  _clearLogin() {
+    this.userId = null;
+    this.token = null;
+    return Promise.resolve(this._authStorage.removeItem(this._authStorageKey));
+  }
+
+  /**
+   * Logs in with the known login token after a (re)connection. Never rejects.
+   * @private
+   * @return {Promise}
+   */
+  _resumeLogin() {
+    return Promise.resolve(this.token || this._authStorage.getItem(this._authStorageKey)).then((token) => {
+      if (token) {
+        return this.login({ resume: token });
+      }
+    }).catch(() => {
+      // a failed resume is already reported by `loginError` event
+    });
   }
 
   /**
    * Tries to subscribe to a specific publication on server.
-   * Starts the subscription if the same subscription exists.
+   * Subscriptions with the same publication and arguments are shared, the shared subscription is started if it is stopped.
+   * It stops when all its handles are stopped, after `subscriptionLinger` ms.
    * @public
    * @param {string} pubname - Name of the publication on server.
    * @param {Array} [arguments] - Array of parameters to pass to the remote method. Pass an empty array or don't pass anything if you do not wish to pass any parameters.
-   * @return {ddpSubscription} - Subscription.
+   * @return {ddpSubscriptionHandle} - Handle of the subscription.
    */
   sub(pubname: string, args: any[]) {
-    const k = this.apply('foo', [123, 2])
+    return this._plugins.sub(pubname, args);
+  }
+
+  /**
+   * @see sub without plugins.
+   * @private
+   */
+  _sub(pubname: string, args: any[]) {
+    return new ddpSubscriptionHandle(this._acquireSubscription(pubname, args), this);
+  }
+
+  /**
+   * Finds or creates the subscription and counts a new handle of it.
+   * @private
+   * @return {ddpSubscription}
+   */
+  _acquireSubscription(pubname: string, args: any[]) {
     let hasSuchSub = this.subs.find((sub) => {
       return sub.pubname == pubname && isEqual(sub.args, Array.isArray(args) ? args : []);
     });
     if (!hasSuchSub) {
       let i = this.subs.push(new ddpSubscription(pubname, Array.isArray(args) ? args : [], this));
-      return this.subs[i - 1];
-    } else {
-      if (hasSuchSub.isStopped()) hasSuchSub.start();
-      return hasSuchSub;
+      hasSuchSub = this.subs[i - 1];
     }
+    hasSuchSub._acquire();
+    return hasSuchSub;
   }
 
   /**
@@ -486,17 +1137,53 @@ class simpleDDP {
    * @public
    * @param {string} pubname - Name of the publication on server.
    * @param {...any} [args] - List of parameters to pass to the remote method. Parameters are passed as function arguments.
-   * @return {ddpSubscription} - Subscription.
+   * @return {ddpSubscriptionHandle} - Handle of the subscription.
    */
   subscribe(pubname: string, ...args: any[]) {
     return this.sub(pubname, args);
   }
 
+  /**
+   * Handles many subscriptions together.
+   * @public
+   * @param {Array} subs - Subscriptions or `[pubname, ...args]` arrays to subscribe with @see subscribe.
+   * @return {ddpSubscriptionGroup} - Group of the subscriptions.
+   * @example
+   * const page = server.subscriptionGroup([['tasks', listId], ['comments', listId], userSub]);
+   * await page.ready();
+   * // leaving the page
+   * page.stop();
+   */
+  subscriptionGroup(subs: (ddpSubscriptionHandle | ddpSubscription | [string, ...any[]])[]) {
+    return new ddpSubscriptionGroup(subs.map((sub) => Array.isArray(sub) ? this.subscribe(...sub) : sub));
+  }
+
+  /**
+   * Subscribes to pages of a publication which does skip and limit on the server.
+   * @public
+   * @param {string} pubname - Name of the publication on server.
+   * @param {Object} [options] - `{collection=pubname, pageSize=20, page=0, args, sort, filter}`,
+   * `args` receives `{page, skip, limit}` and returns subscription arguments, `[{skip, limit}]` by default.
+   * @return {ddpPaginatedSubscription} - Paginated subscription.
+   * @example
+   * const tasks = server.paginate('tasks', {pageSize: 10, sort: {createdAt: -1}});
+   * tasks.onChange((data) => render(data, tasks.loading, tasks.hasMore));
+   * // infinite scroll
+   * tasks.loadMore();
+   */
+  paginate<T = any>(pubname: string, options?: SimpleDDPPaginateOptions<T>) {
+    return new ddpPaginatedSubscription<T>(this, pubname, options);
+  }
+
   /**
    * Starts listening server for basic DDP event running f each time the message arrives.
    * @public
    * @param {string} event - Any event name from DDP specification.
    * Default suppoted events: `connected`, `disconnected`, `added`, `changed`, `removed`, `ready`, `nosub`, `error`, `ping`, `pong`.
+   * Also `login`, `logout` and `loginError` events are emitted by @see login and @see logout.
+   * `reconnecting` event receives `{attempt, delay}` before each reconnection attempt,
+   * `reconnectFailed` event receives `{attempts}` when the reconnection strategy gives up.
+   * `versionMismatch` event receives an error when the server and the client have no DDP version in common.
    * @param {Function} f - Function which receives a message from a DDP server as a first argument each time server is invoking event.
    * @return {ddpEventListener}
    * @example
@@ -508,7 +1195,9 @@ class simpleDDP {
    *     // you can show a reconnection message here
    * });
    */
-  on(event: string, f: (message: DDPMessage, id: string) => void) {
+  on<E extends keyof DDPEventMap>(event: E, f: (message: DDPEventMap[E], id: string) => void): DDPEventListener;
+  on(event: string, f: (message: any, id: string) => void): DDPEventListener;
+  on(event: string, f: (message: any, id: string) => void): DDPEventListener {
     return ddpEventListener(event, f, this);
   }
 
@@ -521,14 +1210,15 @@ class simpleDDP {
 
   /**
    * Removes all documents like if it was removed by the server publication.
+   * Documents written by stubs of pending methods stay until the methods are finished, @see methods.
    * @public
    * @return {Promise} - Resolves when data is successfully removed.
    */
   clearData() {
     return new Promise<void>((resolve, reject) => {
       let totalDocuments = 0;
-      Object.keys(this.collections).forEach((collection) => {
-        totalDocuments += Array.isArray(this.collections[collection]) ? this.collections[collection].length : 0;
+      Object.keys(this._collections).forEach((collection) => {
+        totalDocuments += Array.isArray(this._collections[collection]) ? this._collections[collection].length : 0;
       });
 
       if (totalDocuments === 0) {
@@ -537,6 +1227,9 @@ class simpleDDP {
         let counter = 0;
         let uniqueId = this._id + "-" + this._opGenId();
 
+        // removing documents regardless of how many publications hold them
+        this._mergeBox.reset();
+
         const listener = this.on('removed', (m, id) => {
           if (id == uniqueId) {
             counter++;
@@ -547,11 +1240,11 @@ class simpleDDP {
           }
         });
 
-        Object.keys(this.collections).forEach((collection) => {
-          this.collections[collection].forEach((doc) => {
+        Object.keys(this._collections).forEach((collection) => {
+          this._collections[collection].forEach((doc) => {
             this.ddpConnection.emit('removed', {
               msg: 'removed',
-              id: doc.id,
+              id: doc._id,
               collection: collection
             }, uniqueId);
           });
@@ -575,6 +1268,11 @@ class simpleDDP {
         totalDocuments += Array.isArray(c[collection]) ? c[collection].length : 0;
       });
 
+      if (!totalDocuments) {
+        resolve();
+        return;
+      }
+
       let counter = 0;
       let uniqueId = this._id + "-" + this._opGenId();
 
@@ -589,14 +1287,16 @@ class simpleDDP {
       });
 
       Object.keys(c).forEach((collection) => {
-        c[collection].forEach((doc: { id: any; }) => {
+        c[collection].forEach((doc: { _id?: any; id?: any; }) => {
 
           let docFields = Object.assign({}, doc);
+          delete docFields['_id'];
           delete docFields['id'];
 
           this.ddpConnection.emit('added', {
             msg: 'added',
-            id: doc.id,
+            // `exportData` keeps documents with `_id`
+            id: doc._id !== undefined ? doc._id : doc.id,
             collection: collection,
             fields: docFields
           }, uniqueId);
@@ -645,4 +1345,10 @@ class simpleDDP {
 
 }
 
+export {
+  AbortError, ConnectionError, ConnectionLostError, DDPError, DDPMethodError, SubscriptionError, SubscriptionGroupError, TimeoutError,
+  DDPCancelOptions, DDPRetryPolicy, DDPSubscriptionStatus, SimpleDDPPlugin, SimpleDDPPaginateOptions, DDPPage, DDPObservable, DDPObserver,
+  memoryStorage, fileStorage, StorageAdapter, SimpleDDPPersistOptions, DDPRestoredCall
+};
+
 export default simpleDDP;
@@ -0,0 +1,31 @@
+// Socket of a fake server, the class is passed as `SocketConstructor`.
+// The server accepts connection and records sent messages in `FakeSocket.sent`.
+// `hooks` answer messages by their `msg`, e.g. `{method: (message, socket) => socket.reply({...})}`,
+// a `connect` hook replaces accepting connection.
+function fakeSocket(hooks = {}) {
+  class FakeSocket {
+    constructor() {
+      FakeSocket.last = this;
+      setTimeout(() => this.onopen && this.onopen(), 0);
+    }
+    reply(message) {
+      setTimeout(() => this.onmessage && this.onmessage({data: JSON.stringify(message)}), 0);
+    }
+    send(raw) {
+      const message = JSON.parse(raw);
+      FakeSocket.sent.push(message);
+      if (hooks[message.msg]) {
+        hooks[message.msg](message, this);
+      } else if (message.msg == 'connect') {
+        this.reply({msg: 'connected', session: 'session'});
+      }
+    }
+    close() {
+      setTimeout(() => this.onclose && this.onclose(), 0);
+    }
+  }
+  FakeSocket.sent = [];
+  return FakeSocket;
+}
+
+module.exports = { fakeSocket };
@@ -0,0 +1,19 @@
+// Messages of the server about documents of the collection, handled right away.
+function collectionMessages(collection) {
+  return {
+    added: (server, id, fields) => server.dispatchAdded({msg: 'added', collection, id, fields}),
+    changed: (server, id, fields, cleared) => server.dispatchChanged({msg: 'changed', collection, id, fields, cleared}),
+    removed: (server, id) => server.dispatchRemoved({msg: 'removed', collection, id})
+  };
+}
+
+// Messages of the server about subscriptions, handled like the ones coming from the socket.
+function ready(server, ...subs) {
+  server.ddpConnection.emit('ready', {msg: 'ready', subs: subs.map((sub) => sub._getId())});
+}
+
+function nosub(server, sub, error) {
+  server.ddpConnection.emit('nosub', {msg: 'nosub', id: sub._getId(), error});
+}
+
+module.exports = { collectionMessages, ready, nosub };
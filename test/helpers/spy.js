@@ -0,0 +1,18 @@
+// Records `sub` and `unsub` calls of the connection with subscription ids.
+function spy(server) {
+  const calls = [];
+  const sub = server.ddpConnection.sub.bind(server.ddpConnection);
+  const unsub = server.ddpConnection.unsub.bind(server.ddpConnection);
+  server.ddpConnection.sub = (pubname, args) => {
+    const id = sub(pubname, args);
+    calls.push(['sub', id, args]);
+    return id;
+  };
+  server.ddpConnection.unsub = (id) => {
+    calls.push(['unsub', id]);
+    return unsub(id);
+  };
+  return calls;
+}
+
+module.exports = { spy };
@@ -0,0 +1,6 @@
+// Resolves after the messages emitted by the connection so far are handled.
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+module.exports = { tick, wait };
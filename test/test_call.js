@@ -1,7 +1,10 @@
 const assert = require('chai').assert;
 
 const simpleDDP = require('../lib/simpleddp');
+const { ConnectionLostError } = require('../lib/errors');
 const ws = require("ws");
+const { fakeSocket } = require('./helpers/fakeSocket');
+const utils = require('../lib/ddp/utils');
 
 const opts = {
     endpoint: "ws://someserver.com/websocket",
@@ -70,6 +73,103 @@ describe('simpleDDP', function(){
 
   });
 
+  describe('#apply with wait option', function (){
+
+    let waitServer = new simpleDDP(Object.assign({}, opts, {maxTimeout: undefined, autoConnect: false}));
+    const generateId = utils.generateId;
+    let lastId;
+
+    // emits result and updated messages for the last method call
+    function respond(messages) {
+      const id = lastId;
+      messages.forEach((msg) => {
+        if (msg == 'result') {
+          waitServer.ddpConnection.emit('result', {msg: 'result', id, result: 'ok'});
+        } else {
+          waitServer.ddpConnection.emit('updated', {msg: 'updated', methods: [id]});
+        }
+      });
+    }
+
+    before(function() {
+      utils.generateId = () => lastId = generateId();
+    });
+
+    after(function() {
+      utils.generateId = generateId;
+    });
+
+    it('should resolve onUpdated when updated message arrives', async function () {
+      const events = [];
+      const call = waitServer.apply("somemethod", []);
+      call.then(() => events.push('result'));
+      call.onUpdated.then(() => events.push('updated'));
+
+      respond(['result', 'updated']);
+      await call.onUpdated;
+
+      assert.deepEqual(events, ['result', 'updated']);
+    });
+
+    it('should wait for both result and updated messages', async function () {
+      let resolved = false;
+      const call = waitServer.apply("somemethod", [], {wait: 'both'});
+      call.then(() => resolved = true);
+
+      respond(['result']);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      assert.isFalse(resolved);
+
+      respond(['updated']);
+      assert.equal(await call, 'ok');
+    });
+
+    it('should resolve on updated message even before the result', async function () {
+      const call = waitServer.apply("somemethod", [], {wait: 'updated'});
+
+      respond(['updated']);
+
+      assert.isUndefined(await call);
+    });
+
+    it('should stop listening when the connection fails the call', async function () {
+      const listeners = () => waitServer.ddpConnection.getListeners('updated').length;
+      const before = listeners();
+      const call = waitServer.apply("somemethod", []);
+      const id = lastId;
+
+      waitServer.ddpConnection.emit('result', {msg: 'result', id, error: new ConnectionLostError('somemethod', id)});
+
+      assert.instanceOf(await call.onUpdated.catch((e) => e), ConnectionLostError);
+      assert.equal(listeners(), before);
+    });
+
+  });
+
+  describe('#apply on a lost connection', function (){
+
+    it('should reject onUpdated when the connection is lost between the result and updated', async function () {
+      const FakeSocket = fakeSocket({
+        method: (message, socket) => socket.reply({msg: 'result', id: message.id, result: 'ok'})
+      });
+      const lostServer = new simpleDDP(Object.assign({}, opts, {SocketConstructor: FakeSocket, autoReconnect: false, maxTimeout: undefined}));
+      await lostServer.connect();
+      const listeners = () => ['updated', 'disconnected'].map((event) => lostServer.ddpConnection.getListeners(event).length);
+      const before = listeners();
+      const call = lostServer.apply("somemethod", [], {wait: 'both'});
+      const onUpdated = call.onUpdated.catch((e) => e);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      FakeSocket.last.close();
+
+      const error = await onUpdated;
+      assert.instanceOf(error, ConnectionLostError);
+      assert.strictEqual(await call.catch((e) => e), error);
+      assert.deepEqual(listeners(), before);
+    });
+
+  });
+
   after(function() {
     // runs after all tests in this block
     server.disconnect();
@@ -0,0 +1,97 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { AbortError, TimeoutError } = require('../lib/errors');
+
+// socket of a server which never answers
+class SilentSocket {
+  send() {
+  }
+  close() {
+    setTimeout(() => this.onclose && this.onclose(), 0);
+  }
+}
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: SilentSocket,
+    autoConnect: false,
+    autoReconnect: false
+};
+
+function queued(server) {
+  return server.ddpConnection.messageQueue.toArray().map((m) => m.method || m.name);
+}
+
+describe('simpleDDP', function(){
+
+  describe('#cancel', function (){
+
+    it('should remove aborted method calls from the queue', async function () {
+      const server = new simpleDDP(opts);
+      const controller = new AbortController();
+      const call = server.apply('addTask', ['milk'], {signal: controller.signal});
+      server.apply('addTask', ['bread']);
+      assert.deepEqual(queued(server), ['addTask', 'addTask']);
+
+      controller.abort('changed my mind');
+
+      const [error, updatedError] = await Promise.all([call.catch((e) => e), call.onUpdated.catch((e) => e)]);
+      assert.instanceOf(error, AbortError);
+      assert.equal(error.reason, 'changed my mind');
+      assert.strictEqual(updatedError, error);
+      assert.deepEqual(server.ddpConnection.messageQueue.toArray().map((m) => m.params), [['bread']]);
+    });
+
+    it('should not queue calls with an aborted signal', async function () {
+      const server = new simpleDDP(opts);
+      const controller = new AbortController();
+      controller.abort();
+
+      server.call('addTask');
+
+      const aborted = await server.apply('addTask', [], {signal: controller.signal}).catch((e) => e);
+      assert.instanceOf(aborted, AbortError);
+      assert.deepEqual(queued(server), ['addTask']);
+    });
+
+    it('should time out method calls', async function () {
+      const server = new simpleDDP(Object.assign({}, opts, {maxTimeout: 1000}));
+      const started = Date.now();
+
+      const error = await server.apply('addTask', [], {timeout: 10}).catch((e) => e);
+
+      assert.instanceOf(error, TimeoutError);
+      assert.equal(error.message, 'MAX_TIMEOUT_REACHED');
+      assert.isBelow(Date.now() - started, 500);
+      assert.deepEqual(queued(server), []);
+    });
+
+    it('should stop waiting for the connection', async function () {
+      const server = new simpleDDP(opts);
+      const controller = new AbortController();
+      const connecting = server.connect({signal: controller.signal});
+      controller.abort();
+      assert.instanceOf(await connecting.catch((e) => e), AbortError);
+
+      assert.instanceOf(await server.connect({timeout: 10}).catch((e) => e), TimeoutError);
+      assert.isFalse(server.connected);
+    });
+
+    it('should stop waiting for subscriptions', async function () {
+      const server = new simpleDDP(opts);
+      const sub = server.subscribe('tasks');
+      const controller = new AbortController();
+      const ready = sub.ready({signal: controller.signal});
+      controller.abort();
+
+      assert.instanceOf(await ready.catch((e) => e), AbortError);
+      assert.instanceOf(await sub.ready({timeout: 10}).catch((e) => e), TimeoutError);
+      // the subscription itself goes on
+      assert.isTrue(sub.isOn());
+      assert.deepEqual(queued(server), ['tasks']);
+    });
+
+  });
+
+});
@@ -0,0 +1,95 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+const { collectionMessages } = require('./helpers/messages');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+const { added, changed, removed } = collectionMessages('items');
+
+// only ids and positions
+function brief(changes) {
+  return {
+    added: changes.added.map(({doc, index}) => [doc._id, index]),
+    removed: changes.removed.map(({doc, index}) => [doc._id, index]),
+    changed: changes.changed.map(({id, fields, prevIndex, newIndex}) => [id, fields, prevIndex, newIndex]),
+    moved: changes.moved.map(({id, prevIndex, newIndex}) => [id, prevIndex, newIndex])
+  };
+}
+
+describe('simpleDDP', function(){
+
+  describe('#reactiveCollection->onChange changes', function (){
+
+    it('should describe added, changed, moved and removed documents', function () {
+      const server = new simpleDDP(opts);
+      added(server, 'a', {n: 1, title: 'A'});
+      const reactive = server.collection('items').reactive({sort: {n: 1}});
+      const events = [];
+      reactive.onChange((data, summary, changes) => events.push(brief(changes)), {changes: true});
+
+      added(server, 'b', {n: 2, title: 'B'});
+      added(server, 'c', {n: 0, title: 'C'});
+      changed(server, 'b', {title: 'B2'}, ['n']);
+      changed(server, 'c', {n: 5});
+      removed(server, 'a');
+
+      assert.deepEqual(events, [
+        {added: [['b', 1]], removed: [], changed: [], moved: []},
+        {added: [['c', 0]], removed: [], changed: [], moved: []},
+        // a document without `n` sorts first
+        {added: [], removed: [], changed: [['b', {title: 'B2', n: undefined}, 2, 0]], moved: [['b', 2, 0]]},
+        // one move is enough to get from b, c, a to b, a, c
+        {added: [], removed: [], changed: [['c', {n: 5}, 1, 2]], moved: [['a', 2, 1]]},
+        {added: [], removed: [['a', 1]], changed: [], moved: []}
+      ]);
+      assert.deepEqual(reactive.data().map((doc) => doc._id), ['b', 'c']);
+    });
+
+    it('should sum up a batch and agree with the numbers of changed documents', function () {
+      const server = new simpleDDP(Object.assign({}, opts, {batch: 'microtask'}));
+      ['a', 'b', 'c'].forEach((id, i) => added(server, id, {n: i}));
+      const reactive = server.collection('items').reactive({sort: {n: 1}});
+      let call;
+      reactive.onChange((data, summary, changes) => call = [summary, brief(changes)], {changes: true});
+
+      added(server, 'd', {n: 3});
+      changed(server, 'b', {title: 'B'});
+      removed(server, 'a');
+
+      return Promise.resolve().then(() => {
+        const [summary, changes] = call;
+        assert.deepEqual(summary, {added: 1, changed: 1, removed: 1});
+        assert.deepEqual(changes, {
+          added: [['d', 2]],
+          removed: [['a', 0]],
+          changed: [['b', {title: 'B'}, 1, 0]],
+          moved: []
+        });
+      });
+    });
+
+    it('should keep the previous data only while listeners ask for changes', function () {
+      const server = new simpleDDP(opts);
+      added(server, 'a', {n: 1});
+      const reactive = server.collection('items').reactive({sort: {n: 1}});
+      const plain = [];
+      reactive.onChange((data, summary, changes) => plain.push(changes));
+      const listener = reactive.onChange(() => {}, {changes: true});
+
+      added(server, 'b', {n: 2});
+      assert.deepEqual(plain, [undefined]);
+      assert.lengthOf(reactive._notified, 2);
+
+      listener.stop();
+      assert.isNull(reactive._notified);
+    });
+
+  });
+
+});
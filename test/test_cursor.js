@@ -0,0 +1,114 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+const { collectionMessages } = require('./helpers/messages');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+const { added, changed, removed } = collectionMessages('tasks');
+
+describe('simpleDDP', function(){
+
+  describe('#collection->find', function (){
+
+    it('should fetch, count and iterate matching documents', function () {
+      const server = new simpleDDP(opts);
+      added(server, 'a', {n: 3, done: false});
+      added(server, 'b', {n: 1, done: false});
+      added(server, 'c', {n: 2, done: true});
+      added(server, 'd', {n: 4, done: false});
+      const cursor = server.collection('tasks').find({done: false}, {sort: {n: 1}, limit: 2, fields: {n: 1}});
+
+      assert.deepEqual(cursor.fetch(), [{_id: 'b', n: 1}, {_id: 'a', n: 3}]);
+      assert.equal(cursor.count(), 2);
+      assert.equal(cursor.count(false), 3);
+      assert.deepEqual(cursor.map((doc, i) => doc._id + i), ['b0', 'a1']);
+      const seen = [];
+      cursor.forEach(function (doc) {
+        this.push(doc._id);
+      }, seen);
+      assert.deepEqual(seen, ['b', 'a']);
+    });
+
+    it('should observe documents with ordered callbacks', function () {
+      const server = new simpleDDP(opts);
+      added(server, 'a', {n: 1});
+      added(server, 'b', {n: 2});
+      added(server, 'x', {n: 0, hidden: true});
+      const cursor = server.collection('tasks').find({hidden: {$ne: true}}, {sort: {n: 1}});
+      const calls = [];
+      // the list rendered by the callbacks
+      const list = [];
+      const handle = cursor.observe({
+        addedAt: (doc, index, before) => {
+          calls.push(['addedAt', doc._id, index, before]);
+          list.splice(index, 0, doc);
+        },
+        changedAt: (doc, oldDoc, index) => {
+          calls.push(['changedAt', doc._id, oldDoc.n, index]);
+          list[index] = doc;
+        },
+        removedAt: (doc, index) => {
+          calls.push(['removedAt', doc._id, index]);
+          list.splice(index, 1);
+        },
+        movedTo: (doc, from, to, before) => {
+          calls.push(['movedTo', doc._id, from, to, before]);
+          list.splice(to, 0, list.splice(from, 1)[0]);
+        },
+        removed: () => calls.push(['removed'])
+      });
+
+      assert.deepEqual(calls, [['addedAt', 'a', 0, null], ['addedAt', 'b', 1, null]]);
+
+      added(server, 'c', {n: 0});
+      changed(server, 'a', {n: 5});
+      removed(server, 'b');
+      changed(server, 'x', {n: 6});
+
+      assert.deepEqual(calls.slice(2), [
+        ['addedAt', 'c', 0, 'a'],
+        ['movedTo', 'b', 2, 1, 'a'],
+        ['changedAt', 'a', 1, 2],
+        ['removedAt', 'b', 1]
+      ]);
+      assert.deepEqual(list, cursor.fetch());
+
+      handle.stop();
+      added(server, 'd', {n: 7});
+      assert.lengthOf(calls, 6);
+    });
+
+    it('should observe changes of documents', function () {
+      const server = new simpleDDP(opts);
+      added(server, 'a', {n: 1, title: 'A'});
+      const calls = [];
+      const handle = server.collection('tasks').find({}, {sort: {n: 1}}).observeChanges({
+        addedBefore: (id, fields, before) => calls.push(['addedBefore', id, fields, before]),
+        changed: (id, fields) => calls.push(['changed', id, fields]),
+        movedBefore: (id, before) => calls.push(['movedBefore', id, before]),
+        removed: (id) => calls.push(['removed', id])
+      });
+
+      added(server, 'b', {n: 0});
+      changed(server, 'a', {n: -1}, ['title']);
+      removed(server, 'b');
+      handle.stop();
+
+      assert.deepEqual(calls, [
+        ['addedBefore', 'a', {n: 1, title: 'A'}, null],
+        ['addedBefore', 'b', {n: 0}, 'a'],
+        ['movedBefore', 'a', 'b'],
+        ['changed', 'a', {n: -1, title: undefined}],
+        ['removed', 'b']
+      ]);
+    });
+
+  });
+
+});
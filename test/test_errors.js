@@ -0,0 +1,92 @@
+const assert = require('chai').assert;
+const EJSON = require('ejson');
+
+const simpleDDP = require('../lib/simpleddp');
+const { DDPMethodError, SubscriptionError, ConnectionError, TimeoutError } = require('../lib/errors');
+const ws = require("ws");
+const { fakeSocket } = require('./helpers/fakeSocket');
+
+// server which answers every method with `error` message
+const FakeSocket = fakeSocket({
+  method: (message, socket) => socket.reply({msg: 'error', reason: 'Bad request', offendingMessage: message})
+});
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+describe('simpleDDP', function(){
+
+  describe('#errors', function (){
+
+    it('should reject method calls with DDPMethodError', async function () {
+      const server = new simpleDDP(opts);
+      const call = server.apply('addTask', ['milk']);
+      const methodId = server.ddpConnection.messageQueue.toArray()[0].id;
+
+      server.ddpConnection.emit('result', {msg: 'result', id: methodId, error: {
+        isClientSafe: true, error: 'not-allowed', reason: 'Too many tasks', details: {max: 10}, errorType: 'Meteor.Error'
+      }});
+      const error = await call.catch((e) => e);
+
+      assert.instanceOf(error, DDPMethodError);
+      assert.instanceOf(error, Error);
+      assert.equal(error.error, 'not-allowed');
+      assert.equal(error.reason, 'Too many tasks');
+      assert.deepEqual(error.details, {max: 10});
+      assert.isTrue(error.isClientSafe);
+      assert.equal(error.method, 'addTask');
+      assert.equal(error.message, 'Too many tasks [not-allowed]');
+    });
+
+    it('should reject subscriptions with SubscriptionError', async function () {
+      const server = new simpleDDP(opts);
+      const sub = server.subscribe('tasks');
+      const ready = sub.ready();
+      server.ddpConnection.emit('nosub', {msg: 'nosub', id: sub._getId(), error: {error: 403, reason: 'Forbidden'}});
+
+      const error = await ready.catch((e) => e);
+      assert.instanceOf(error, SubscriptionError);
+      assert.equal(error.error, 403);
+      assert.equal(error.pubname, 'tasks');
+
+      const other = server.subscribe('tags');
+      const otherReady = other.ready();
+      server.ddpConnection.emit('nosub', {msg: 'nosub', id: other._getId()});
+      assert.equal((await otherReady.catch((e) => e)).error, 'subscription-stopped');
+    });
+
+    it('should report error messages with ConnectionError', async function () {
+      const server = new simpleDDP(Object.assign({}, opts, {SocketConstructor: FakeSocket, autoReconnect: false}));
+      const errors = [];
+      server.on('error', (e) => errors.push(e));
+      await server.connect();
+
+      const error = await server.call('addTask').catch((e) => e);
+
+      assert.instanceOf(error, ConnectionError);
+      assert.equal(error.reason, 'Bad request');
+      assert.equal(error.offendingMessage.method, 'addTask');
+      assert.strictEqual(errors[0], error);
+      await server.disconnect();
+    });
+
+    it('should keep errors in exported data', async function () {
+      const server = new simpleDDP(opts);
+      await server.importData({tasks: [{_id: 't1', error: new DDPMethodError(500, 'Oops', undefined, 'addTask')}]});
+      await server.importData({tasks: [{_id: 't2', error: new TimeoutError(100)}]});
+
+      const data = EJSON.parse(server.exportData());
+
+      assert.instanceOf(data.tasks[0].error, DDPMethodError);
+      assert.equal(data.tasks[0].error.reason, 'Oops');
+      assert.equal(data.tasks[0].error.method, 'addTask');
+      assert.instanceOf(data.tasks[1].error, TimeoutError);
+      assert.equal(data.tasks[1].error.timeout, 100);
+    });
+
+  });
+
+});
@@ -0,0 +1,54 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { fakeSocket } = require('./helpers/fakeSocket');
+
+let answerPings = true;
+
+// server which may answer pings
+const FakeSocket = fakeSocket({
+  ping: (message, socket) => {
+    if (answerPings) socket.reply({msg: 'pong', id: message.id});
+  }
+});
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: FakeSocket,
+    heartbeatInterval: 10,
+    heartbeatTimeout: 30
+};
+
+describe('simpleDDP', function(){
+
+  describe('#heartbeat', function (){
+
+    it('should ping the server and measure latency', async function () {
+      answerPings = true;
+      const server = new simpleDDP(opts);
+
+      await server.connect();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      assert.isTrue(server.connected);
+      assert.isAbove(server.latency.samples, 1);
+      assert.isAtLeast(server.latency.max, server.latency.min);
+
+      await server.disconnect();
+    });
+
+    it('should close the connection when the server stops answering', function (done) {
+      answerPings = false;
+      const server = new simpleDDP(Object.assign({}, opts, {autoReconnect: false}));
+      const started = Date.now();
+
+      server.on('disconnected', () => {
+        assert.isAtLeast(Date.now() - started, 30);
+        assert.isFalse(server.ddpConnection.status == 'connected');
+        done();
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,109 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+// pseudo random numbers, so failures are reproducible
+function random(seed) {
+  return function () {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+}
+
+function fill(server, n) {
+  for (let i = 0; i < n; i++) {
+    server.dispatchAdded({msg: 'added', collection: 'items', id: 'id' + i, fields: {value: i % 100, label: 'item ' + i}});
+  }
+}
+
+// sort comparisons and reads of collection documents on `changes` changed messages
+// in a collection of n documents observed by a sorted reactive collection
+function countOperations(n, changes) {
+  const server = new simpleDDP(opts);
+  fill(server, n);
+  const counts = {compared: 0, read: 0};
+  server.collections.items = new Proxy(server.collections.items, {
+    get(target, key) {
+      if (typeof key == 'string' && /^\d+$/.test(key)) counts.read++;
+      return target[key];
+    }
+  });
+  const reactive = server.collection('items').reactive({sort: (a, b) => {
+    counts.compared++;
+    return a.value - b.value;
+  }});
+  // indexing the replaced array is not a part of changes
+  server._indexOf('items', 'id0');
+  counts.compared = counts.read = 0;
+
+  const next = random(n);
+  for (let k = 0; k < changes; k++) {
+    const id = 'id' + Math.floor(next() * n);
+    server.dispatchChanged({msg: 'changed', collection: 'items', id, fields: {value: Math.floor(next() * 100)}});
+  }
+
+  reactive.stop();
+  return counts;
+}
+
+describe('simpleDDP', function(){
+
+  describe('#documentIndex', function (){
+
+    it('should keep collections and sorted reactive collections consistent', function () {
+      const server = new simpleDDP(opts);
+      fill(server, 50);
+      const collection = server.collection('items');
+      const reactive = collection.reactive({sort: {value: 1, label: -1}, skip: 5, limit: 20});
+      const next = random(7);
+      let counter = 50;
+
+      for (let k = 0; k < 500; k++) {
+        const action = next();
+        const docs = server.collections.items;
+        const id = docs.length ? docs[Math.floor(next() * docs.length)]._id : null;
+        if (action < 0.3 || !id) {
+          const i = counter++;
+          server.dispatchAdded({msg: 'added', collection: 'items', id: 'id' + i, fields: {value: i % 100, label: 'item ' + i}});
+        } else if (action < 0.5) {
+          server.dispatchRemoved({msg: 'removed', collection: 'items', id});
+        } else {
+          server.dispatchChanged({msg: 'changed', collection: 'items', id, fields: {value: Math.floor(next() * 100)}});
+        }
+        assert.deepEqual(reactive.data(), collection.fetch({sort: {value: 1, label: -1}, skip: 5, limit: 20}));
+      }
+
+      server.collections.items.forEach((doc, i) => {
+        assert.equal(server._indexOf('items', doc._id), i);
+      });
+    });
+
+    it('should find documents in collections replaced from outside', function () {
+      const server = new simpleDDP(opts);
+      fill(server, 3);
+      server.collections.items = [{_id: 'a', value: 1}];
+
+      server.dispatchChanged({msg: 'changed', collection: 'items', id: 'a', fields: {value: 2}});
+
+      assert.deepEqual(server.collections.items, [{_id: 'a', value: 2}]);
+    });
+
+    it('should not do more work on changes in proportion to the collection size', function () {
+      const small = countOperations(1000, 500);
+      const large = countOperations(30000, 500);
+
+      // linear searches and re-sorting read or compare every document
+      assert.isBelow(large.read, small.read * 2);
+      assert.isBelow(large.compared, small.compared * 2);
+    });
+
+  });
+
+});
@@ -0,0 +1,26 @@
+const assert = require('chai').assert;
+
+const { isEqual } = require('../lib/helpers/isEqual');
+
+describe('simpleDDP', function(){
+
+  describe('#isEqual', function (){
+
+    // subscriptions are shared by publication and arguments, so equal arguments must compare equal
+    it('should compare arrays and objects with equal items as equal', function () {
+      assert.isTrue(isEqual([], []));
+      assert.isTrue(isEqual(['list1', 10], ['list1', 10]));
+      assert.isTrue(isEqual([{skip: 0, limit: 20}], [{skip: 0, limit: 20}]));
+      assert.isTrue(isEqual({a: [1, {b: 'c'}]}, {a: [1, {b: 'c'}]}));
+    });
+
+    it('should compare arrays and objects with different items as different', function () {
+      assert.isFalse(isEqual(['list1'], ['list2']));
+      assert.isFalse(isEqual(['list1'], ['list1', 10]));
+      assert.isFalse(isEqual([{skip: 0}], [{skip: 20}]));
+      assert.isFalse(isEqual([1], ['1']));
+    });
+
+  });
+
+});
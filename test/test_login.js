@@ -0,0 +1,183 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { sha256 } = require('../lib/helpers/sha256');
+const { ConnectionLostError } = require('../lib/errors');
+const ws = require("ws");
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+// remembers every method call made through the ddp connection
+function spyMethods(server) {
+  const calls = [];
+  const method = server.ddpConnection.method.bind(server.ddpConnection);
+  server.ddpConnection.method = function (name, params, atBeginning) {
+    const id = method(name, params, atBeginning);
+    calls.push({id, name, params});
+    return id;
+  };
+  return calls;
+}
+
+describe('simpleDDP', function(){
+
+  describe('#sha256', function (){
+
+    it('should produce standard digests', function () {
+      assert.equal(sha256('abc'), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+      assert.equal(sha256(''), 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    });
+
+  });
+
+  describe('#login', function (){
+
+    it('should send hashed password and remember the user', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spyMethods(server);
+      let loginEvent = null;
+      server.on('login', (m) => loginEvent = m);
+
+      const login = server.login({user: 'john@example.com', password: 'abc'});
+
+      assert.equal(calls[0].name, 'login');
+      assert.deepEqual(calls[0].params, [{
+        user: {email: 'john@example.com'},
+        password: {digest: sha256('abc'), algorithm: 'sha-256'}
+      }]);
+
+      server.ddpConnection.emit('result', {
+        msg: 'result',
+        id: calls[0].id,
+        result: {id: 'user1', token: 'token1'}
+      });
+
+      const result = await login;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      assert.equal(result.id, 'user1');
+      assert.equal(server.userId, 'user1');
+      assert.equal(server.token, 'token1');
+      assert.deepEqual(loginEvent, {id: 'user1', token: 'token1'});
+    });
+
+    it('should emit loginError and forget the token when resume fails', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spyMethods(server);
+      let loginError = null;
+      server.on('loginError', (e) => loginError = e);
+      server.token = 'expired';
+
+      const login = server.login({resume: 'expired'});
+
+      server.ddpConnection.emit('result', {
+        msg: 'result',
+        id: calls[0].id,
+        error: {error: 403, reason: 'You\'ve been logged out by the server'}
+      });
+
+      try {
+        await login;
+        assert.fail('login should be rejected');
+      } catch (e) {
+        assert.equal(e.error, 403);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      assert.isNull(server.token);
+      assert.equal(loginError.error, 403);
+    });
+
+    it('should keep the token when resume fails without an answer of the server', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spyMethods(server);
+      server.token = 'token';
+
+      const login = server.login({resume: 'token'});
+
+      server.ddpConnection.emit('result', {
+        msg: 'result',
+        id: calls[0].id,
+        error: new ConnectionLostError('login', calls[0].id)
+      });
+
+      assert.instanceOf(await login.catch((e) => e), ConnectionLostError);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      assert.equal(server.token, 'token');
+    });
+
+  });
+
+  describe('#logout', function (){
+
+    it('should clear the user and the stored token', async function () {
+      const items = {'simpleddp.loginToken': 'token1'};
+      const server = new simpleDDP(Object.assign({}, opts, {
+        authStorage: {
+          getItem: (key) => items[key],
+          setItem: (key, value) => { items[key] = value; },
+          removeItem: (key) => { delete items[key]; }
+        }
+      }));
+      const calls = spyMethods(server);
+      server.userId = 'user1';
+      server.token = 'token1';
+
+      const logout = server.logout();
+
+      server.ddpConnection.emit('result', {
+        msg: 'result',
+        id: calls[0].id,
+        result: undefined
+      });
+
+      await logout;
+
+      assert.equal(calls[0].name, 'logout');
+      assert.isNull(server.userId);
+      assert.isNull(server.token);
+      assert.deepEqual(items, {});
+    });
+
+  });
+
+  describe('#connected', function (){
+
+    it('should resume login from storage before restarting subscriptions', async function () {
+      const server = new simpleDDP(Object.assign({}, opts, {
+        authStorage: {
+          getItem: () => Promise.resolve('stored'),
+          setItem: () => Promise.resolve(),
+          removeItem: () => Promise.resolve()
+        }
+      }));
+      const calls = spyMethods(server);
+      let restarted = false;
+      server.restartSubs = () => restarted = true;
+
+      server.ddpConnection.emit('connected');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      assert.equal(calls[0].name, 'login');
+      assert.deepEqual(calls[0].params, [{resume: 'stored'}]);
+      assert.isFalse(restarted);
+
+      server.ddpConnection.emit('result', {
+        msg: 'result',
+        id: calls[0].id,
+        result: {id: 'user1', token: 'stored'}
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      assert.equal(server.userId, 'user1');
+      assert.isTrue(restarted);
+    });
+
+  });
+
+});
@@ -0,0 +1,100 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+const { tick } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+describe('simpleDDP', function(){
+
+  describe('#mergebox', function (){
+
+    it('should merge fields of a document published twice', async function () {
+      const server = new simpleDDP(opts);
+      const changes = [];
+      server.collection('docs').onChange(({changed}) => changes.push(changed));
+
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'A'}});
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {body: 'text'}});
+      await tick();
+
+      assert.deepEqual(server.collections.docs, [{_id: 'a', title: 'A', body: 'text'}]);
+      assert.deepEqual(changes[1].fieldsChanged, {body: 'text'});
+    });
+
+    it('should keep a document until the last publication removes it', async function () {
+      const server = new simpleDDP(opts);
+
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'A'}});
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'A'}});
+      server.ddpConnection.emit('removed', {msg: 'removed', collection: 'docs', id: 'a'});
+      await tick();
+
+      assert.deepEqual(server.collections.docs, [{_id: 'a', title: 'A'}]);
+
+      server.ddpConnection.emit('removed', {msg: 'removed', collection: 'docs', id: 'a'});
+      await tick();
+
+      assert.deepEqual(server.collections.docs, []);
+    });
+
+    it('should remove only the fields of the removed publication', async function () {
+      const server = new simpleDDP(opts);
+      const changes = [];
+      server.collection('docs').onChange(({changed}) => changes.push(changed));
+
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'A', rank: 1}});
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'A', rank: 2, body: 'text'}});
+      server.ddpConnection.emit('changed', {msg: 'changed', collection: 'docs', id: 'a', fields: {title: 'B', tags: ['x']}});
+      server.ddpConnection.emit('removed', {msg: 'removed', collection: 'docs', id: 'a'});
+      await tick();
+
+      // title was changed in both publications, tags went to the latest one
+      assert.deepEqual(server.collections.docs, [{_id: 'a', title: 'B', rank: 1}]);
+      const last = changes[changes.length - 1];
+      assert.deepEqual(last.fieldsChanged, {rank: 1});
+      assert.sameMembers(last.fieldsRemoved, ['body', 'tags']);
+
+      server.ddpConnection.emit('removed', {msg: 'removed', collection: 'docs', id: 'a'});
+      await tick();
+
+      assert.deepEqual(server.collections.docs, []);
+    });
+
+    it('should replace documents of the previous session after reconnection', async function () {
+      const server = new simpleDDP(Object.assign({}, opts, {clearDataOnReconnection: false}));
+      server.restartSubs = () => {};
+
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'A', old: true}});
+      server.ddpConnection.emit('connected');
+      await tick();
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'B'}});
+      await tick();
+
+      assert.deepEqual(server.collections.docs, [{_id: 'a', title: 'B'}]);
+
+      server.ddpConnection.emit('removed', {msg: 'removed', collection: 'docs', id: 'a'});
+      await tick();
+
+      assert.deepEqual(server.collections.docs, []);
+    });
+
+    it('should clear documents regardless of publications count', async function () {
+      const server = new simpleDDP(opts);
+
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'A'}});
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'docs', id: 'a', fields: {title: 'A'}});
+      await tick();
+      await server.clearData();
+
+      assert.deepEqual(server.collections.docs, []);
+    });
+
+  });
+
+});
@@ -0,0 +1,102 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { SubscriptionError } = require('../lib/errors');
+const ws = require("ws");
+const { spy } = require('./helpers/spy');
+const { tick } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+function publish(server, id, ...docs) {
+  docs.forEach((n) => server.ddpConnection.emit('added', {msg: 'added', collection: 'tasks', id: 'task' + n, fields: {n}}));
+  server.ddpConnection.emit('ready', {msg: 'ready', subs: [id]});
+}
+
+function unpublish(server, id, ...docs) {
+  docs.forEach((n) => server.ddpConnection.emit('removed', {msg: 'removed', collection: 'tasks', id: 'task' + n}));
+  server.ddpConnection.emit('nosub', {msg: 'nosub', id});
+}
+
+const numbers = (tasks) => tasks.data().map((doc) => doc.n);
+
+describe('simpleDDP', function(){
+
+  describe('#paginate', function (){
+
+    it('should keep the shown page until the next one is loaded', async function () {
+      const server = new simpleDDP(opts);
+      server.connected = true;
+      const calls = spy(server);
+      const tasks = server.paginate('tasks', {pageSize: 2, sort: {n: 1}});
+      const states = [];
+      tasks.onChange(() => states.push([tasks.loading, numbers(tasks)]));
+
+      assert.deepEqual(calls[0][2], [{skip: 0, limit: 2}]);
+      assert.isTrue(tasks.loading);
+      publish(server, calls[0][1], 1, 2);
+      await tick();
+      assert.isFalse(tasks.loading);
+      assert.isTrue(tasks.hasMore);
+
+      const loaded = tasks.nextPage();
+      assert.deepEqual(calls[1][2], [{skip: 2, limit: 2}]);
+      publish(server, calls[1][1], 3, 4);
+      await tick();
+      assert.deepEqual(calls[2], ['unsub', calls[0][1]]);
+      assert.isTrue(tasks.loading);
+      assert.deepEqual(numbers(tasks), [1, 2]);
+
+      unpublish(server, calls[0][1], 1, 2);
+      await loaded;
+      await tick();
+
+      assert.equal(tasks.page, 1);
+      assert.isFalse(tasks.loading);
+      assert.deepEqual(numbers(tasks), [3, 4]);
+      assert.deepEqual(states.slice(-2), [[true, [1, 2]], [false, [3, 4]]]);
+    });
+
+    it('should load more pages for infinite scroll', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spy(server);
+      const tasks = server.paginate('tasks', {pageSize: 2, sort: {n: 1}, args: ({page, limit}) => ['list1', page, limit]});
+      publish(server, calls[0][1], 1, 2);
+      await tick();
+
+      const loaded = tasks.loadMore();
+      assert.deepEqual(calls[1][2], ['list1', 0, 4]);
+      publish(server, calls[1][1], 3);
+      await loaded;
+      await tick();
+
+      assert.deepEqual(numbers(tasks), [1, 2, 3]);
+      assert.isFalse(tasks.hasMore);
+    });
+
+    it('should stay on the shown page when the next one fails', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spy(server);
+      const tasks = server.paginate('tasks', {pageSize: 2});
+      publish(server, calls[0][1], 1, 2);
+      await tick();
+
+      const loaded = tasks.nextPage().catch((e) => e);
+      server.ddpConnection.emit('nosub', {msg: 'nosub', id: calls[1][1], error: {error: 403, reason: 'Forbidden'}});
+      const error = await loaded;
+
+      assert.instanceOf(error, SubscriptionError);
+      assert.strictEqual(tasks.lastError, error);
+      assert.equal(tasks.page, 0);
+      assert.isFalse(tasks.loading);
+      assert.deepEqual(numbers(tasks), [1, 2]);
+      assert.strictEqual(tasks.subscription.subscriptionId, calls[0][1]);
+    });
+
+  });
+
+});
@@ -0,0 +1,150 @@
+const assert = require('chai').assert;
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const simpleDDP = require('../lib/simpleddp');
+const { memoryStorage, fileStorage } = require('../lib/helpers/storage');
+const ws = require("ws");
+const EJSON = require("ejson");
+const { fakeSocket } = require('./helpers/fakeSocket');
+const { wait } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+function persisted(storage) {
+  return Object.assign({}, opts, {persist: {storage, throttle: 0}});
+}
+
+describe('simpleDDP', function(){
+
+  describe('#persist', function (){
+
+    it('should restore collections saved by the previous instance', async function () {
+      const storage = memoryStorage();
+      const server = new simpleDDP(persisted(storage));
+      await server.persistence.restored;
+
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'items', id: 'a', fields: {value: 1}});
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'items', id: 'b', fields: {value: 2}});
+      server.ddpConnection.emit('changed', {msg: 'changed', collection: 'items', id: 'b', fields: {value: 3}});
+      await wait(20);
+      server.persistence.stop();
+
+      const restarted = new simpleDDP(persisted(storage));
+      await restarted.persistence.restored;
+
+      assert.deepEqual(restarted.collection('items').fetch(), [{_id: 'a', value: 1}, {_id: 'b', value: 3}]);
+    });
+
+    it('should replay unsent method calls except login', async function () {
+      const storage = memoryStorage();
+      const server = new simpleDDP(persisted(storage));
+      await server.persistence.restored;
+
+      server.apply('first', [1]);
+      server.apply('login', [{resume: 'token'}]);
+      server.apply('second', [{value: 2}]);
+      await wait(0);
+      server.persistence.stop();
+
+      const restarted = new simpleDDP(persisted(storage));
+      restarted.apply('third', []);
+      await restarted.persistence.restored;
+
+      const messages = restarted.ddpConnection.messageQueue.toArray();
+      assert.deepEqual(messages.map((m) => [m.method, m.params]), [
+        ['first', [1]],
+        ['second', [{value: 2}]],
+        ['third', []]
+      ]);
+      assert.equal(new Set(messages.map((m) => m.id)).size, 3);
+
+      // the stored calls are removed once they are sent
+      restarted.ddpConnection.messageQueue.empty();
+      await wait(0);
+      assert.isNull(storage.getItem('simpleddp.methods'));
+    });
+
+    it('should send restored method calls after the resume login', async function () {
+      const storage = memoryStorage();
+      const server = new simpleDDP(persisted(storage));
+      await server.persistence.restored;
+      server.apply('addTask', ['milk']);
+      await wait(0);
+      server.persistence.stop();
+      storage.setItem('simpleddp.loginToken', 'token');
+
+      const FakeSocket = fakeSocket();
+      const restarted = new simpleDDP(Object.assign(persisted(storage), {SocketConstructor: FakeSocket, authStorage: storage}));
+      await restarted.connect();
+      await wait(10);
+      const methods = () => FakeSocket.sent.filter((m) => m.msg == 'method');
+
+      const [login] = methods();
+      assert.deepEqual(login.params, [{resume: 'token'}]);
+      assert.lengthOf(methods(), 1);
+
+      FakeSocket.last.reply({msg: 'result', id: login.id, result: {id: 'userId', token: 'token'}});
+      await wait(10);
+      assert.deepEqual(methods().map((m) => m.method), ['login', 'addTask']);
+      await restarted.disconnect();
+    });
+
+    it('should keep sent calls until their result and restore them with results', async function () {
+      const storage = memoryStorage();
+      const silent = fakeSocket();
+      const server = new simpleDDP(Object.assign(persisted(storage), {SocketConstructor: silent, autoReconnect: false}));
+      await server.connect();
+      server.apply('addTask', ['milk'], {idempotencyKey: 'key'});
+      await wait(10);
+
+      const [sent] = silent.sent.filter((m) => m.msg == 'method');
+      assert.lengthOf(server.ddpConnection.messageQueue.toArray(), 0);
+      assert.deepEqual(EJSON.parse(storage.getItem('simpleddp.methods')), [{method: 'addTask', params: ['milk'], randomSeed: 'key'}]);
+      server.persistence.stop();
+      await server.disconnect();
+
+      const answering = fakeSocket({
+        method: (message, socket) => socket.reply({msg: 'result', id: message.id, result: 'taskId'})
+      });
+      const restarted = new simpleDDP(Object.assign(persisted(storage), {SocketConstructor: answering, autoReconnect: false}));
+      await restarted.persistence.restored;
+      const [restored] = restarted.persistence.restoredCalls;
+      assert.deepEqual([restored.method, restored.params], ['addTask', ['milk']]);
+
+      await restarted.connect();
+      assert.equal(await restored.call, 'taskId');
+      const [resent] = answering.sent.filter((m) => m.msg == 'method');
+      assert.equal(resent.randomSeed, sent.randomSeed);
+
+      // the call is forgotten once its result arrives
+      await wait(10);
+      assert.isNull(storage.getItem('simpleddp.methods'));
+      await restarted.disconnect();
+    });
+
+    it('should keep items in files', async function () {
+      const directory = path.join(os.tmpdir(), 'simpleddp-test-' + process.pid);
+      try {
+        const storage = fileStorage(directory, fs);
+        assert.isNull(await storage.getItem('some/key'));
+
+        await Promise.all([storage.setItem('some/key', 'one'), storage.setItem('some/key', 'two')]);
+        assert.equal(await fileStorage(directory, fs).getItem('some/key'), 'two');
+
+        await storage.removeItem('some/key');
+        await storage.removeItem('some/key');
+        assert.isNull(await storage.getItem('some/key'));
+      } finally {
+        fs.rmSync(directory, {recursive: true, force: true});
+      }
+    });
+
+  });
+
+});
@@ -0,0 +1,162 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+const { fakeSocket } = require('./helpers/fakeSocket');
+const { wait } = require('./helpers/wait');
+
+const FakeSocket = fakeSocket();
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+const connectedOpts = Object.assign({}, opts, {SocketConstructor: FakeSocket, autoReconnect: false});
+
+describe('simpleDDP', function(){
+
+  describe('#plugins', function (){
+
+    beforeEach(function () {
+      FakeSocket.sent = [];
+    });
+
+    it('should run legacy hooks of constructor plugins', function () {
+      const calls = [];
+      const hooks = ['init', 'beforeConnected', 'afterConnected', 'beforeSubsRestart', 'afterSubsRestart', 'beforeDisconnected',
+        'afterDisconnected', 'beforeAdded', 'afterAdded', 'beforeChanged', 'afterChanged', 'beforeRemoved', 'afterRemoved', 'after'];
+      const plugin = {};
+      hooks.forEach((hook) => {
+        plugin[hook] = function () {
+          assert.instanceOf(this, simpleDDP);
+          calls.push(hook);
+        };
+      });
+
+      const server = new simpleDDP(opts, [plugin]);
+
+      assert.deepEqual(calls, hooks);
+      assert.deepEqual(server._plugins.list(), [plugin]);
+    });
+
+    it('should pass incoming messages through inbound middleware by priority', async function () {
+      const server = new simpleDDP(connectedOpts);
+      const order = [];
+      server.use({
+        inbound: (message, next) => {
+          order.push('default');
+          // dropping
+          if (message.collection != 'secret') next(message);
+        }
+      });
+      server.use({
+        priority: 10,
+        inbound: (message, next) => {
+          order.push('high');
+          if (message.msg == 'added') message.fields.seen = true;
+          setTimeout(() => next(message), 0);
+        }
+      });
+      await server.connect();
+      order.length = 0;
+
+      FakeSocket.last.reply({msg: 'added', collection: 'secret', id: 's', fields: {}});
+      FakeSocket.last.reply({msg: 'added', collection: 'items', id: 'a', fields: {value: 1}});
+      await wait(20);
+
+      assert.deepEqual(order, ['high', 'high', 'default', 'default']);
+      assert.isUndefined(server.collections.secret);
+      assert.deepEqual(server.collections.items, [{_id: 'a', value: 1, seen: true}]);
+      await server.disconnect();
+    });
+
+    it('should pass outgoing messages through outbound middleware', async function () {
+      const server = new simpleDDP(connectedOpts);
+      const plugin = {
+        outbound: (message, next) => {
+          if (message.msg == 'method') message.params.push('extra');
+          next(message);
+        }
+      };
+      server.use(plugin);
+      await server.connect();
+      // messages wait for the resume login
+      await wait(10);
+
+      server.call('first', 1);
+      server.unuse(plugin);
+      server.call('second', 2);
+      await wait(10);
+
+      const methods = FakeSocket.sent.filter((m) => m.msg == 'method');
+      assert.deepEqual(methods.map((m) => m.params), [[1, 'extra'], [2]]);
+      await server.disconnect();
+    });
+
+    it('should wrap apply and sub, the first plugin outermost', function () {
+      const server = new simpleDDP(opts);
+      const order = [];
+      const outer = {
+        wrapApply: (next, ddplink) => (method, args, options) => {
+          assert.strictEqual(ddplink, server);
+          order.push('outer');
+          return next(method.toUpperCase(), args, options);
+        },
+        wrapSub: (next) => (pubname, args) => next('public.' + pubname, args)
+      };
+      const inner = {
+        wrapApply: (next) => (method, args, options) => {
+          order.push('inner ' + method);
+          return next(method, args, options);
+        }
+      };
+      server.use(outer);
+      const handle = server.use(inner);
+
+      const call = server.call('addTask', 'milk');
+      const sub = server.subscribe('tasks', 1);
+
+      assert.deepEqual(order, ['outer', 'inner ADDTASK']);
+      assert.property(call, 'onUpdated');
+      assert.equal(sub.pubname, 'public.tasks');
+      assert.deepEqual(server.ddpConnection.messageQueue.toArray().map((m) => m.method || m.name), ['ADDTASK', 'public.tasks']);
+
+      handle.stop();
+      server.call('other');
+      assert.deepEqual(order, ['outer', 'inner ADDTASK', 'outer']);
+
+      handle.start();
+      server.call('other');
+      assert.deepEqual(order.slice(3), ['outer', 'inner OTHER']);
+    });
+
+    it('should add methods to the instance and call install hooks', function () {
+      const server = new simpleDDP(opts);
+      const calls = [];
+      const plugin = {
+        extend: {
+          taskCount() {
+            return this.collection('tasks').fetch().length;
+          }
+        },
+        install: (ddplink) => calls.push(['install', ddplink === server]),
+        uninstall: (ddplink) => calls.push(['uninstall', ddplink === server])
+      };
+
+      server.use(plugin);
+      server.use(plugin);
+      assert.equal(server.taskCount(), 0);
+      assert.equal(server.extensions.taskCount(), 0);
+      assert.throws(() => server.use({extend: {apply() {}}}), /apply/);
+
+      server.unuse(plugin);
+      assert.isUndefined(server.taskCount);
+      assert.deepEqual(server.extensions, {});
+      assert.deepEqual(calls, [['install', true], ['uninstall', true]]);
+    });
+
+  });
+
+});
@@ -0,0 +1,78 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+const { collectionMessages } = require('./helpers/messages');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+const { added, changed } = collectionMessages('posts');
+
+describe('simpleDDP', function(){
+
+  describe('#collection->fields', function (){
+
+    it('should fetch only projected fields', function () {
+      const server = new simpleDDP(opts);
+      added(server, 'a', {title: 'A', body: 'long', rank: 2, author: {name: 'Ann', email: 'ann@example.com'}, tags: [{name: 'x', color: 'red'}]});
+      added(server, 'b', {title: 'B', body: 'longer', rank: 1, author: {name: 'Bob', email: 'bob@example.com'}, tags: []});
+      const posts = server.collection('posts');
+
+      assert.deepEqual(posts.fetch({fields: {title: 1, 'author.name': 1, 'tags.name': 1}, sort: {rank: 1}}), [
+        {_id: 'b', title: 'B', author: {name: 'Bob'}, tags: []},
+        {_id: 'a', title: 'A', author: {name: 'Ann'}, tags: [{name: 'x'}]}
+      ]);
+      assert.deepEqual(posts.filter({rank: 2}).fetch({fields: {body: 0, tags: 0, 'author.email': 0, _id: 0}}), [
+        {title: 'A', rank: 2, author: {name: 'Ann'}}
+      ]);
+      assert.throws(() => posts.fetch({fields: {title: 1, body: 0}}), 'Projection can not mix including and excluding fields');
+    });
+
+    it('should not notify reactive collections about changes of other fields', function () {
+      const server = new simpleDDP(opts);
+      added(server, 'a', {title: 'A', views: 1, rank: 1});
+      added(server, 'b', {title: 'B', views: 1, rank: 2});
+      const reactive = server.collection('posts').reactive({fields: {title: 1}, sort: {rank: 1}});
+      const data = reactive.data();
+      let changes = 0;
+      reactive.onChange(() => changes++);
+
+      assert.deepEqual(data, [{_id: 'a', title: 'A'}, {_id: 'b', title: 'B'}]);
+
+      changed(server, 'a', {views: 2});
+      assert.equal(changes, 0);
+
+      // the sort still sees all fields
+      changed(server, 'a', {rank: 3});
+      assert.equal(changes, 1);
+      assert.deepEqual(data, [{_id: 'b', title: 'B'}, {_id: 'a', title: 'A'}]);
+
+      changed(server, 'b', {title: 'B2'});
+      assert.equal(changes, 2);
+      assert.deepEqual(data[0], {_id: 'b', title: 'B2'});
+
+      reactive.settings({fields: null});
+      assert.deepEqual(data[0], {_id: 'b', title: 'B2', views: 1, rank: 2});
+    });
+
+    it('should not notify reactive documents about changes of other fields', function () {
+      const server = new simpleDDP(opts);
+      added(server, 'a', {title: 'A', views: 1});
+      const one = server.collection('posts').reactive().one({fields: {title: 1}});
+      const states = [];
+      one.onChange((doc) => states.push(Object.assign({}, doc)));
+
+      assert.deepEqual(one.data(), {_id: 'a', title: 'A'});
+      changed(server, 'a', {views: 2});
+      changed(server, 'a', {title: 'A2'});
+
+      assert.deepEqual(states, [{_id: 'a', title: 'A2'}]);
+    });
+
+  });
+
+});
@@ -0,0 +1,112 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+const { tick } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+function add(server, id, fields) {
+  server.ddpConnection.emit('added', {msg: 'added', collection: 'items', id, fields});
+}
+
+describe('simpleDDP', function(){
+
+  describe('#batch', function (){
+
+    it('should notify after every message by default', async function () {
+      const server = new simpleDDP(opts);
+      const reactive = server.collection('items').reactive();
+      const summaries = [];
+      reactive.onChange((data, summary) => summaries.push(summary));
+
+      add(server, 'a', {value: 1});
+      add(server, 'b', {value: 2});
+      await tick();
+      await tick();
+
+      assert.deepEqual(summaries, [
+        {added: 1, changed: 0, removed: 0},
+        {added: 1, changed: 0, removed: 0}
+      ]);
+    });
+
+    it('should notify reactive collections, reducers and documents once per microtask', function () {
+      const server = new simpleDDP(Object.assign({}, opts, {batch: 'microtask'}));
+      const reactive = server.collection('items').reactive({sort: {value: 1}});
+      let reductions = 0;
+      const sum = reactive.reduce((acc, doc) => {
+        reductions++;
+        return acc + doc.value;
+      }, 0);
+      const calls = {collection: [], reducer: [], document: []};
+
+      reactive.onChange((data, summary) => calls.collection.push([data.length, summary]));
+      sum.onChange((result) => calls.reducer.push(result));
+      reactive.one().onChange((doc) => calls.document.push(doc._id));
+
+      for (let i = 0; i < 100; i++) {
+        server.dispatchAdded({msg: 'added', collection: 'items', id: 'id' + i, fields: {value: i}});
+      }
+      server.dispatchChanged({msg: 'changed', collection: 'items', id: 'id5', fields: {value: 500}});
+      server.dispatchRemoved({msg: 'removed', collection: 'items', id: 'id0'});
+
+      // data is already applied, only notifications wait
+      assert.equal(reactive.data().length, 99);
+      assert.equal(reductions, 0);
+
+      return Promise.resolve().then(() => {
+        assert.deepEqual(calls.collection, [[99, {added: 100, changed: 1, removed: 1}]]);
+        assert.deepEqual(calls.reducer, [4950 - 5 + 500]);
+        assert.deepEqual(calls.document, ['id1']);
+        assert.equal(reductions, 99);
+      });
+    });
+
+    it('should wait until started subscriptions are ready', async function () {
+      const server = new simpleDDP(Object.assign({}, opts, {batch: 'ready'}));
+      const reactive = server.collection('items').reactive();
+      const summaries = [];
+      reactive.onChange((data, summary) => summaries.push(summary));
+
+      const sub = server.subscribe('items');
+      add(server, 'a', {value: 1});
+      add(server, 'b', {value: 2});
+      await tick();
+      await tick();
+
+      assert.deepEqual(summaries, []);
+      assert.equal(reactive.data().length, 2);
+
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [sub.subscriptionId]});
+      await tick();
+
+      assert.deepEqual(summaries, [{added: 2, changed: 0, removed: 0}]);
+
+      // after the subscription is ready changes are batched per microtask
+      add(server, 'c', {value: 3});
+      await tick();
+
+      assert.deepEqual(summaries[1], {added: 1, changed: 0, removed: 0});
+    });
+
+    it('should drop pending notifications of stopped reactive collections', async function () {
+      const server = new simpleDDP(Object.assign({}, opts, {batch: 'frame'}));
+      const reactive = server.collection('items').reactive();
+      let calls = 0;
+      reactive.onChange(() => calls++);
+
+      server.dispatchAdded({msg: 'added', collection: 'items', id: 'a', fields: {}});
+      reactive.stop();
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      assert.equal(calls, 0);
+    });
+
+  });
+
+});
@@ -0,0 +1,86 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+
+// socket which can never reach the server
+class UnreachableSocket {
+  constructor() {
+    UnreachableSocket.created++;
+    setTimeout(() => this.onclose && this.onclose(), 0);
+  }
+  send() {}
+  close() {}
+}
+UnreachableSocket.created = 0;
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: UnreachableSocket
+};
+
+describe('simpleDDP', function(){
+
+  describe('#reconnectStrategy', function (){
+
+    beforeEach(function() {
+      UnreachableSocket.created = 0;
+    });
+
+    it('should back off exponentially and give up after maxAttempts', function (done) {
+      const server = new simpleDDP(Object.assign({}, opts, {
+        reconnectStrategy: {initialDelay: 5, factor: 2, maxDelay: 15, jitter: 0, maxAttempts: 3}
+      }));
+      const attempts = [];
+
+      server.on('reconnecting', (m) => attempts.push(m));
+      server.on('reconnectFailed', (m) => {
+        assert.deepEqual(attempts, [
+          {attempt: 1, delay: 5},
+          {attempt: 2, delay: 10},
+          {attempt: 3, delay: 15}
+        ]);
+        assert.deepEqual(m, {attempts: 3});
+        assert.equal(UnreachableSocket.created, 4);
+        assert.isFalse(server.tryingToConnect);
+        done();
+      });
+    });
+
+    it('should use a custom strategy function', function (done) {
+      const server = new simpleDDP(Object.assign({}, opts, {
+        reconnectStrategy: (attempt) => attempt < 3 ? attempt : false
+      }));
+      const delays = [];
+
+      server.on('reconnecting', ({delay}) => delays.push(delay));
+      server.on('reconnectFailed', ({attempts}) => {
+        assert.deepEqual(delays, [1, 2]);
+        assert.equal(attempts, 2);
+        done();
+      });
+    });
+
+  });
+
+  describe('#reconnectNow', function (){
+
+    it('should skip the delay of the scheduled reconnection', function (done) {
+      UnreachableSocket.created = 0;
+      const server = new simpleDDP(Object.assign({}, opts, {reconnectInterval: 100000}));
+
+      const listener = server.on('reconnecting', ({attempt}) => {
+        if (attempt == 1) {
+          assert.equal(UnreachableSocket.created, 1);
+          server.reconnectNow();
+          assert.equal(UnreachableSocket.created, 2);
+        } else {
+          listener.stop();
+          server.disconnect();
+          done();
+        }
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,146 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { ConnectionLostError } = require('../lib/errors');
+const { fakeSocket } = require('./helpers/fakeSocket');
+const { wait } = require('./helpers/wait');
+
+let silent = false;
+let methods = [];
+
+// server which accepts connection unless `silent` and records method calls
+const FakeSocket = fakeSocket({
+  connect: (message, socket) => {
+    if (!silent) socket.reply({msg: 'connected', session: 'session'});
+  },
+  method: (message) => methods.push(message)
+});
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: FakeSocket,
+    autoConnect: false,
+    reconnectInterval: 10
+};
+
+// connects and waits for `n` method calls to reach the server
+async function sent(n) {
+  while (methods.length < n) await wait(5);
+  return methods.slice(0, n);
+}
+
+describe('simpleDDP', function(){
+
+  describe('#retry', function (){
+
+    beforeEach(function () {
+      methods = [];
+      silent = false;
+    });
+
+    it('should reject calls in flight with ConnectionLostError by default', async function () {
+      const server = new simpleDDP(opts);
+      await server.connect();
+      const call = server.apply('addTask', ['milk']);
+      const [message] = await sent(1);
+
+      FakeSocket.last.close();
+
+      const errors = await Promise.all([call.catch((e) => e), call.onUpdated.catch((e) => e)]);
+      assert.instanceOf(errors[0], ConnectionLostError);
+      assert.equal(errors[0].method, 'addTask');
+      assert.equal(errors[0].methodId, message.id);
+      assert.strictEqual(errors[1], errors[0]);
+
+      // not sent again after the reconnection
+      await wait(30);
+      assert.lengthOf(methods, 1);
+      await server.disconnect();
+    });
+
+    it('should send calls again with the same idempotency key after reconnection', async function () {
+      const server = new simpleDDP(opts);
+      await server.connect();
+      const call = server.apply('addTask', ['milk'], {retry: 'onReconnect', idempotencyKey: true});
+      const noRetry = server.apply('addTask', ['bread'], {retry: 'onReconnect', noRetry: true});
+      const [first] = await sent(2);
+
+      FakeSocket.last.close();
+      assert.instanceOf(await noRetry.catch((e) => e), ConnectionLostError);
+
+      const [, , replay] = await sent(3);
+      assert.deepEqual(replay, first);
+      assert.isString(first.randomSeed);
+
+      FakeSocket.last.reply({msg: 'result', id: first.id, result: 'taskId'});
+      assert.equal(await call, 'taskId');
+      await server.disconnect();
+    });
+
+    it('should send calls again only after the resume login', async function () {
+      const server = new simpleDDP(opts);
+      server.token = 'token';
+      await server.connect();
+      const call = server.apply('addTask', ['milk'], {retry: 'onReconnect'});
+      const [resume] = await sent(1);
+      assert.equal(resume.method, 'login');
+      FakeSocket.last.reply({msg: 'result', id: resume.id, result: {id: 'userId', token: 'token'}});
+      const [, first] = await sent(2);
+
+      FakeSocket.last.close();
+      const [, , login] = await sent(3);
+      assert.equal(login.method, 'login');
+      assert.deepEqual(login.params, [{resume: 'token'}]);
+
+      // the replay waits for the login result
+      await wait(30);
+      assert.lengthOf(methods, 3);
+      FakeSocket.last.reply({msg: 'result', id: login.id, result: {id: 'userId', token: 'token'}});
+
+      const [, , , replay] = await sent(4);
+      assert.deepEqual(replay, first);
+      FakeSocket.last.reply({msg: 'result', id: first.id, result: 'taskId'});
+      assert.equal(await call, 'taskId');
+      assert.equal(server.userId, 'userId');
+      await server.disconnect();
+    });
+
+    it('should send calls again at most the given number of times', async function () {
+      const server = new simpleDDP(opts);
+      await server.connect();
+      const call = server.apply('addTask', ['milk'], {retry: 1, idempotencyKey: 'key'});
+      await sent(1);
+
+      FakeSocket.last.close();
+      const [first, replay] = await sent(2);
+      assert.equal(replay.randomSeed, 'key');
+      assert.equal(replay.id, first.id);
+
+      FakeSocket.last.close();
+      assert.instanceOf(await call.catch((e) => e), ConnectionLostError);
+      await server.disconnect();
+    });
+
+    it('should drop unsent calls with cleanQueue unless they may be retried', async function () {
+      silent = true;
+      const server = new simpleDDP(Object.assign({}, opts, {cleanQueue: true}));
+      server.connect();
+      const dropped = server.apply('addTask', ['milk']);
+      const kept = server.apply('addTask', ['bread'], {retry: 'onReconnect'});
+      await wait(10);
+
+      silent = false;
+      FakeSocket.last.close();
+
+      assert.instanceOf(await dropped.catch((e) => e), ConnectionLostError);
+      const [message] = await sent(1);
+      assert.deepEqual(message.params, ['bread']);
+
+      FakeSocket.last.reply({msg: 'result', id: message.id, result: true});
+      assert.isTrue(await kept);
+      await server.disconnect();
+    });
+
+  });
+
+});
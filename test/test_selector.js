@@ -0,0 +1,103 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+describe('simpleDDP', function(){
+  let server = new simpleDDP(opts);
+
+  describe('#collection->filter with selector', function (){
+
+    beforeEach(function() {
+      server.collections['people'] = [{
+        _id: 'a',
+        name: 'Ann',
+        age: 31,
+        tags: ['admin', 'dev'],
+        address: {city: 'Paris'},
+        createdAt: new Date(2020, 1, 1)
+      },{
+        _id: 'b',
+        name: 'Bob',
+        age: 17,
+        tags: ['dev'],
+        address: {city: 'Rome'},
+        createdAt: new Date(2021, 1, 1)
+      },{
+        _id: 'c',
+        name: 'carl',
+        age: 45,
+        pets: [{kind: 'cat', age: 3}, {kind: 'dog', age: 10}],
+        createdAt: new Date(2019, 1, 1)
+      }];
+
+      server.onChangeFuncs = [];
+    });
+
+    const ids = (docs) => docs.map((doc) => doc._id);
+
+    it('should support comparison and equality operators', function () {
+      assert.deepEqual(ids(server.collection('people').filter({age: {$gt: 18, $lt: 40}}).fetch()), ['a']);
+      assert.deepEqual(ids(server.collection('people').filter({name: {$in: ['Bob', 'carl']}}).fetch()), ['b', 'c']);
+      assert.deepEqual(ids(server.collection('people').filter({age: {$ne: 17}}).fetch()), ['a', 'c']);
+      assert.deepEqual(ids(server.collection('people').filter({createdAt: {$gte: new Date(2020, 0, 1)}}).fetch()), ['a', 'b']);
+      assert.deepEqual(ids(server.collection('people').filter('b').fetch()), ['b']);
+    });
+
+    it('should match ids given as a string like the rest of the library', function () {
+      server.collections['numbered'] = [{_id: 1, name: 'one'}, {_id: 2, name: 'two'}];
+      assert.deepEqual(ids(server.collection('numbered').filter('2').fetch()), [2]);
+    });
+
+    it('should match arrays, dotted paths and $elemMatch', function () {
+      assert.deepEqual(ids(server.collection('people').filter({tags: 'admin'}).fetch()), ['a']);
+      assert.deepEqual(ids(server.collection('people').filter({'address.city': 'Rome'}).fetch()), ['b']);
+      assert.deepEqual(ids(server.collection('people').filter({'pets.kind': 'dog'}).fetch()), ['c']);
+      assert.deepEqual(ids(server.collection('people').filter({pets: {$elemMatch: {kind: 'cat', age: {$gt: 5}}}}).fetch()), []);
+      assert.deepEqual(ids(server.collection('people').filter({pets: {$elemMatch: {kind: 'dog', age: {$gt: 5}}}}).fetch()), ['c']);
+    });
+
+    it('should support logical operators, $exists and $regex', function () {
+      assert.deepEqual(ids(server.collection('people').filter({$or: [{age: {$lt: 18}}, {pets: {$exists: true}}]}).fetch()), ['b', 'c']);
+      assert.deepEqual(ids(server.collection('people').filter({$and: [{tags: 'dev'}, {age: {$not: {$lt: 18}}}]}).fetch()), ['a']);
+      assert.deepEqual(ids(server.collection('people').filter({name: {$regex: '^c', $options: 'i'}}).fetch()), ['c']);
+      assert.deepEqual(ids(server.collection('people').filter({name: /^[AB]/}).fetch()), ['a', 'b']);
+    });
+
+    it('should sort with Mongo-style sort specifiers', function () {
+      assert.deepEqual(ids(server.collection('people').fetch({sort: {createdAt: -1}})), ['b', 'a', 'c']);
+      assert.deepEqual(ids(server.collection('people').fetch({sort: [['age', 'asc']], filter: {age: {$gt: 20}}})), ['a', 'c']);
+      assert.deepEqual(ids(server.collection('people').reactive({sort: {age: 1}}).data()), ['b', 'a', 'c']);
+    });
+
+    it('should pass the selector to onChange listeners', function (done) {
+      server.collection('people').filter({age: {$gte: 18}}).onChange(function ({prev, next}) {
+        assert.isFalse(prev);
+        assert.equal(next._id, 'd');
+        done();
+      });
+
+      server.ddpConnection.emit('added', {
+        msg: 'added',
+        id: 'young',
+        fields: {age: 3},
+        collection: 'people'
+      });
+
+      server.ddpConnection.emit('added', {
+        msg: 'added',
+        id: 'd',
+        fields: {age: 30},
+        collection: 'people'
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,133 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { toObservable } = require('../lib/helpers/stream');
+const ws = require("ws");
+const { collectionMessages } = require('./helpers/messages');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+const { added } = collectionMessages('tasks');
+
+describe('simpleDDP', function(){
+
+  describe('#asyncIterator', function (){
+
+    it('should iterate the latest data of a reactive collection and stop on return', async function () {
+      const server = new simpleDDP(opts);
+      const reactive = server.collection('tasks').reactive({sort: {n: 1}});
+      const iterator = reactive[Symbol.asyncIterator]();
+
+      assert.deepEqual((await iterator.next()).value, []);
+
+      // a slow consumer gets only the latest state
+      added(server, 'a', {n: 1});
+      added(server, 'b', {n: 2});
+      const {value} = await iterator.next();
+      assert.deepEqual(value.map((doc) => doc._id), ['a', 'b']);
+
+      const waiting = iterator.next();
+      added(server, 'c', {n: 3});
+      assert.lengthOf((await waiting).value, 3);
+
+      assert.deepEqual(await iterator.return(), {value: undefined, done: true});
+      assert.lengthOf(reactive._tickers, 0);
+      assert.isTrue((await iterator.next()).done);
+    });
+
+    it('should queue change events of a collection', async function () {
+      const server = new simpleDDP(opts);
+      const seen = [];
+      added(server, 'a', {n: 1});
+
+      setTimeout(() => {
+        added(server, 'b', {n: 2});
+        added(server, 'c', {n: 3});
+        server.dispatchRemoved({msg: 'removed', collection: 'tasks', id: 'a'});
+      }, 0);
+
+      for await (const {prev, next} of server.collection('tasks').filter({})) {
+        seen.push([prev && prev._id, next && next._id]);
+        if (seen.length == 3) break;
+      }
+
+      assert.deepEqual(seen, [[false, 'b'], [false, 'c'], ['a', false]]);
+      assert.lengthOf(server.onChangeFuncs, 0);
+    });
+
+    it('should end the iteration when the source stops', async function () {
+      const server = new simpleDDP(opts);
+      const reactive = server.collection('tasks').reactive();
+      const iterator = reactive[Symbol.asyncIterator]();
+      await iterator.next();
+
+      const waiting = iterator.next();
+      reactive.stop();
+
+      assert.deepEqual(await waiting, {value: undefined, done: true});
+      assert.lengthOf(reactive._tickers, 0);
+      assert.lengthOf(reactive._stopTickers, 0);
+    });
+
+  });
+
+  describe('#observable', function (){
+
+    it('should send the current and the next values until unsubscribe', function () {
+      const server = new simpleDDP(opts);
+      const count = server.collection('tasks').reactive().reduce((acc) => acc + 1, 0);
+      const observable = count['@@observable']();
+      const values = [];
+
+      assert.strictEqual(observable['@@observable'](), observable);
+      const subscription = observable.subscribe({next: (value) => values.push(value)});
+      added(server, 'a', {n: 1});
+      added(server, 'b', {n: 2});
+      subscription.unsubscribe();
+      added(server, 'c', {n: 3});
+
+      assert.isTrue(subscription.closed);
+      assert.deepEqual(values, [0, 1, 2]);
+      assert.equal(count.data().result, 3);
+    });
+
+    it('should complete subscribers when the source stops', function () {
+      const server = new simpleDDP(opts);
+      const reactive = server.collection('tasks').reactive();
+      const doc = reactive.one();
+      const events = [];
+      const subscription = doc['@@observable']().subscribe({
+        next: () => events.push('next'),
+        complete: () => events.push('complete')
+      });
+
+      doc.stop();
+      added(server, 'a', {n: 1});
+
+      assert.deepEqual(events, ['next', 'complete']);
+      assert.isTrue(subscription.closed);
+      assert.lengthOf(doc._stopTickers, 0);
+    });
+
+    it('should send an error to subscribers when the source fails', function () {
+      const server = new simpleDDP(opts);
+      const reactive = server.collection('tasks').reactive();
+      const failing = () => { throw new Error('failed'); };
+      const errors = [];
+      const subscription = toObservable((push) => reactive.onChange(push), failing).subscribe({
+        next: () => {},
+        error: (e) => errors.push(e.message)
+      });
+
+      assert.deepEqual(errors, ['failed']);
+      assert.isTrue(subscription.closed);
+      assert.lengthOf(reactive._tickers, 0);
+    });
+
+  });
+
+});
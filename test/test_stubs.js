@@ -0,0 +1,125 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+const { tick } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+describe('simpleDDP', function(){
+
+  describe('#methods', function (){
+
+    let server, lastMethodId;
+
+    beforeEach(function() {
+      server = new simpleDDP(opts);
+      const method = server.ddpConnection.method.bind(server.ddpConnection);
+      server.ddpConnection.method = (...args) => lastMethodId = method(...args);
+
+      server.methods({
+        addTask(text) {
+          this.collection('tasks').insert({_id: 'new', text, pending: true});
+        },
+        completeTask(id) {
+          this.collection('tasks').update(id, {$set: {done: true}});
+        },
+        removeTask(id) {
+          this.collection('tasks').remove(id);
+        }
+      });
+    });
+
+    it('should apply stub writes immediately and replace them with server data', async function () {
+      const events = [];
+      server.collection('tasks').onChange(({added, changed}) => {
+        events.push(added ? ['added', added] : ['changed', changed.next]);
+      });
+
+      const call = server.call('addTask', 'buy milk');
+      const methodId = lastMethodId;
+
+      assert.deepEqual(server.collections.tasks, [{_id: 'new', text: 'buy milk', pending: true}]);
+
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'tasks', id: 'new', fields: {text: 'buy milk', owner: 'me'}});
+      server.ddpConnection.emit('result', {msg: 'result', id: methodId});
+      await tick();
+
+      // server data waits until the method is finished
+      assert.deepEqual(server.collections.tasks, [{_id: 'new', text: 'buy milk', pending: true}]);
+
+      server.ddpConnection.emit('updated', {msg: 'updated', methods: [methodId]});
+      await call.onUpdated;
+
+      assert.deepEqual(server.collections.tasks, [{_id: 'new', text: 'buy milk', owner: 'me'}]);
+      assert.deepEqual(events, [
+        ['added', {_id: 'new', text: 'buy milk', pending: true}],
+        ['changed', {_id: 'new', text: 'buy milk', owner: 'me'}]
+      ]);
+    });
+
+    it('should roll back stub writes when the server does not confirm them', async function () {
+      server.collections.tasks = [{_id: 't1', text: 'walk'}];
+
+      server.call('completeTask', 't1').catch(() => {});
+      const methodId = lastMethodId;
+
+      assert.deepEqual(server.collections.tasks, [{_id: 't1', text: 'walk', done: true}]);
+
+      server.ddpConnection.emit('result', {msg: 'result', id: methodId, error: {error: 403}});
+      server.ddpConnection.emit('updated', {msg: 'updated', methods: [methodId]});
+      await tick();
+      await tick();
+
+      assert.deepEqual(server.collections.tasks, [{_id: 't1', text: 'walk'}]);
+    });
+
+    it('should keep documents until every method writing them is finished', async function () {
+      server.collections.tasks = [{_id: 't1', text: 'walk'}];
+
+      server.call('completeTask', 't1');
+      const completeId = lastMethodId;
+      server.call('removeTask', 't1');
+      const removeId = lastMethodId;
+
+      assert.deepEqual(server.collections.tasks, []);
+
+      server.ddpConnection.emit('changed', {msg: 'changed', collection: 'tasks', id: 't1', fields: {done: true}});
+      server.ddpConnection.emit('updated', {msg: 'updated', methods: [completeId]});
+      await tick();
+
+      assert.deepEqual(server.collections.tasks, []);
+
+      server.ddpConnection.emit('removed', {msg: 'removed', collection: 'tasks', id: 't1'});
+      server.ddpConnection.emit('updated', {msg: 'updated', methods: [removeId]});
+      await tick();
+
+      assert.deepEqual(server.collections.tasks, []);
+    });
+
+    it('should keep documents written by pending methods through clearData until the methods finish', async function () {
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'tasks', id: 't1', fields: {text: 'walk'}});
+      await tick();
+      server.call('completeTask', 't1');
+      const completeId = lastMethodId;
+      server.call('addTask', 'buy milk');
+      const addId = lastMethodId;
+
+      await server.clearData();
+      assert.deepEqual(server.collections.tasks, [{_id: 't1', text: 'walk', done: true}, {_id: 'new', text: 'buy milk', pending: true}]);
+
+      // the server publishes only the first document again
+      server.ddpConnection.emit('added', {msg: 'added', collection: 'tasks', id: 't1', fields: {text: 'walk', done: true, at: 1}});
+      server.ddpConnection.emit('updated', {msg: 'updated', methods: [completeId, addId]});
+      await tick();
+
+      assert.deepEqual(server.collections.tasks, [{_id: 't1', text: 'walk', done: true, at: 1}]);
+    });
+
+  });
+
+});
@@ -0,0 +1,94 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { SubscriptionGroupError, SubscriptionError } = require('../lib/errors');
+const ws = require("ws");
+const { ready, nosub } = require('./helpers/messages');
+const { tick } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+describe('simpleDDP', function(){
+
+  describe('#subscriptionGroup', function (){
+
+    it('should be ready when all subscriptions are ready', async function () {
+      const server = new simpleDDP(opts);
+      const userSub = server.subscribe('user');
+      const group = server.subscriptionGroup([['tasks', 'list1'], ['comments', 'list1'], userSub]);
+      let readyCalls = 0;
+      group.onReady(() => readyCalls++);
+
+      assert.deepEqual(group.subs.map((sub) => [sub.pubname, sub.args]), [['tasks', ['list1']], ['comments', ['list1']], ['user', []]]);
+      assert.strictEqual(group.subs[2], userSub);
+
+      const groupReady = group.ready();
+      ready(server, group.subs[0], userSub);
+      await tick();
+      assert.isFalse(group.isReady());
+      assert.equal(readyCalls, 0);
+
+      ready(server, group.subs[1]);
+      await groupReady;
+      assert.isTrue(group.isReady());
+      assert.equal(readyCalls, 1);
+    });
+
+    it('should reject as soon as a subscription fails', async function () {
+      const server = new simpleDDP(opts);
+      const group = server.subscriptionGroup([['tasks'], ['comments'], ['tags']]);
+      const stopped = [];
+      group.onNosub((error, sub) => stopped.push([sub.pubname, error.error]));
+
+      // `comments` never becomes ready
+      const groupReady = group.ready().catch((e) => e);
+      nosub(server, group.subs[0], {error: 403, reason: 'Forbidden'});
+
+      const error = await groupReady;
+      assert.instanceOf(error, SubscriptionGroupError);
+      assert.lengthOf(error.errors, 1);
+      assert.instanceOf(error.errors[0], SubscriptionError);
+      assert.equal(error.errors[0].pubname, 'tasks');
+
+      nosub(server, group.subs[2], {error: 404, reason: 'Not found'});
+      await tick();
+      assert.deepEqual(stopped, [['tasks', 403], ['tags', 404]]);
+    });
+
+    it('should restart subscriptions with new arguments and stop them', async function () {
+      const server = new simpleDDP(opts);
+      const group = server.subscriptionGroup([['tasks', 'list1'], ['comments', 'list1', 10], ['user']]);
+      ready(server, ...group.subs);
+      await group.ready();
+
+      let restarted = group.restart({tasks: ['list2'], comments: ['list2', 10]});
+      group.subs.slice(0, 2).forEach((sub) => nosub(server, sub));
+      await tick();
+      ready(server, ...group.subs.slice(0, 2));
+      await restarted;
+
+      assert.deepEqual(group.subs.map((sub) => sub.args), [['list2'], ['list2', 10], []]);
+      assert.deepEqual(group.subs.map((sub) => sub.restartCount), [1, 1, 0]);
+
+      restarted = group.restart([undefined, ['list3', 20]]);
+      nosub(server, group.subs[1]);
+      await tick();
+      ready(server, group.subs[1]);
+      await restarted;
+
+      assert.deepEqual(group.subs.map((sub) => sub.args), [['list2'], ['list3', 20], []]);
+      assert.deepEqual(group.subs.map((sub) => sub.restartCount), [1, 2, 0]);
+
+      const stopping = group.stop();
+      group.subs.forEach((sub) => nosub(server, sub));
+      await stopping;
+      assert.deepEqual(group.subs.map((sub) => sub.status), ['stopped', 'stopped', 'stopped']);
+    });
+
+  });
+
+});
@@ -0,0 +1,87 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const ws = require("ws");
+const { ready, nosub } = require('./helpers/messages');
+const { spy } = require('./helpers/spy');
+const { wait } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+describe('simpleDDP', function(){
+
+  describe('#subscription->refcount', function (){
+
+    it('should share the subscription and stop it with the last handle', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spy(server);
+      const first = server.subscribe('tasks', 'list1');
+      const second = server.subscribe('tasks', 'list1');
+
+      assert.notStrictEqual(first, second);
+      assert.strictEqual(first.subscription, second.subscription);
+      assert.lengthOf(server.subs, 1);
+      assert.deepEqual(calls, [['sub', first.subscriptionId, ['list1']]]);
+
+      ready(server, first);
+      await second.ready();
+
+      await first.stop();
+      assert.isTrue(first.isStopped());
+      assert.isTrue(second.isOn());
+      assert.equal(second.status, 'ready');
+      assert.lengthOf(calls, 1);
+
+      const stopping = second.stop();
+      nosub(server, second);
+      await stopping;
+      assert.deepEqual(calls[1], ['unsub', second.subscriptionId]);
+      assert.equal(second.subscription.status, 'stopped');
+    });
+
+    it('should reuse a lingering subscription', async function () {
+      const server = new simpleDDP(Object.assign({subscriptionLinger: 30}, opts));
+      const calls = spy(server);
+      const sub = server.subscribe('tasks');
+      ready(server, sub);
+      await sub.ready();
+
+      await sub.stop();
+      await wait(10);
+      const remounted = server.subscribe('tasks');
+      await wait(40);
+
+      assert.strictEqual(remounted.subscription, sub.subscription);
+      assert.isTrue(remounted.isReady());
+      assert.deepEqual(calls, [['sub', sub.subscriptionId, []]]);
+
+      await remounted.stop();
+      await wait(40);
+      assert.deepEqual(calls[1], ['unsub', remounted.subscriptionId]);
+    });
+
+    it('should move only one handle when it restarts with new arguments', async function () {
+      const server = new simpleDDP(opts);
+      const first = server.subscribe('tasks', 'list1');
+      const second = server.subscribe('tasks', 'list1');
+      ready(server, first);
+      await first.ready();
+
+      const restarted = second.restart(['list2']);
+      ready(server, second);
+      await restarted;
+
+      assert.deepEqual(first.args, ['list1']);
+      assert.deepEqual(second.args, ['list2']);
+      assert.isTrue(first.isReady());
+      assert.isTrue(second.isReady());
+      assert.lengthOf(server.subs, 2);
+    });
+
+  });
+
+});
@@ -0,0 +1,103 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { SubscriptionError } = require('../lib/errors');
+const ws = require("ws");
+const { ready, nosub } = require('./helpers/messages');
+const { tick } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+describe('simpleDDP', function(){
+
+  describe('#subscription->status', function (){
+
+    it('should follow the lifecycle of the subscription', async function () {
+      const server = new simpleDDP(opts);
+      const sub = server.subscribe('tasks');
+      const changes = [];
+      const listener = sub.onStatusChange((status, previous) => changes.push([previous, status]));
+
+      assert.equal(sub.status, 'pending');
+      assert.isNull(sub.readyAt);
+
+      ready(server, sub);
+      await tick();
+      assert.equal(sub.status, 'ready');
+      assert.instanceOf(sub.readyAt, Date);
+
+      sub.stop();
+      nosub(server, sub);
+      await tick();
+      assert.equal(sub.status, 'stopped');
+      assert.deepEqual(changes, [['pending', 'ready'], ['ready', 'stopped']]);
+
+      listener.stop();
+      sub.start();
+      assert.equal(sub.status, 'pending');
+      assert.lengthOf(changes, 2);
+    });
+
+    it('should stay restarting until the new run is ready', async function () {
+      const server = new simpleDDP(opts);
+      const sub = server.subscribe('tasks');
+      ready(server, sub);
+      await tick();
+      const changes = [];
+      sub.onStatusChange((status) => changes.push(status));
+
+      const restarted = sub.restart();
+      nosub(server, sub);
+      await tick();
+      assert.equal(sub.status, 'restarting');
+
+      ready(server, sub);
+      await restarted;
+
+      assert.deepEqual(changes, ['restarting', 'ready']);
+      assert.equal(sub.restartCount, 1);
+    });
+
+    it('should keep the last error', async function () {
+      const server = new simpleDDP(opts);
+      const sub = server.subscribe('tasks');
+      sub.ready().catch(() => {});
+
+      nosub(server, sub, {error: 403, reason: 'Forbidden'});
+      await tick();
+
+      assert.equal(sub.status, 'error');
+      assert.instanceOf(sub.lastError, SubscriptionError);
+      assert.equal(sub.lastError.error, 403);
+    });
+
+    it('should return handles from onReady and onNosub when the state is already reached', async function () {
+      const server = new simpleDDP(opts);
+      const sub = server.subscribe('tasks');
+      ready(server, sub);
+      await tick();
+
+      let readyCalls = 0;
+      const onReady = sub.onReady(() => readyCalls++);
+      assert.equal(readyCalls, 1);
+      onReady.stop();
+      ready(server, sub);
+      await tick();
+      assert.equal(readyCalls, 1);
+
+      sub.stop();
+      nosub(server, sub);
+      await tick();
+      let nosubCalls = 0;
+      const onNosub = sub.onNosub(() => nosubCalls++);
+      assert.equal(nosubCalls, 1);
+      assert.isFunction(onNosub.stop);
+    });
+
+  });
+
+});
@@ -0,0 +1,127 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { SubscriptionError } = require('../lib/errors');
+const ws = require("ws");
+const { collectionMessages } = require('./helpers/messages');
+const { spy } = require('./helpers/spy');
+const { tick } = require('./helpers/wait');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: ws,
+    autoConnect: false
+};
+
+const { added } = collectionMessages('tasks');
+
+describe('simpleDDP', function(){
+
+  describe('#subscription->update', function (){
+
+    it('should stop the old subscription only when the new one is ready', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spy(server);
+      const sub = server.subscribe('tasks', 'list1');
+      const oldId = sub.subscriptionId;
+      added(server, 'a', {title: 'shared'});
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [oldId]});
+      await sub.ready();
+
+      const updated = sub.update(['list2']);
+      const newId = calls[1][1];
+      assert.deepEqual(calls[1], ['sub', newId, ['list2']]);
+      added(server, 'b', {title: 'new'});
+      await tick();
+
+      assert.lengthOf(calls, 2);
+      assert.deepEqual(sub.args, ['list1']);
+      assert.equal(sub.status, 'ready');
+      assert.deepEqual(server.collection('tasks').fetch().map((doc) => doc._id), ['a', 'b']);
+
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [newId]});
+      await updated;
+
+      assert.deepEqual(calls[2], ['unsub', oldId]);
+      assert.deepEqual(sub.args, ['list2']);
+      assert.equal(sub.subscriptionId, newId);
+
+      // `nosub` of the old subscription does not stop the updated one
+      server.ddpConnection.emit('nosub', {msg: 'nosub', id: oldId});
+      await tick();
+      assert.equal(sub.status, 'ready');
+      assert.isTrue(sub.isReady());
+    });
+
+    it('should keep the old subscription when the new one fails', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spy(server);
+      const sub = server.subscribe('tasks', 'list1');
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [sub.subscriptionId]});
+      await sub.ready();
+
+      const updated = sub.update(['secret']).catch((e) => e);
+      server.ddpConnection.emit('nosub', {msg: 'nosub', id: calls[1][1], error: {error: 403, reason: 'Forbidden'}});
+      const error = await updated;
+
+      assert.instanceOf(error, SubscriptionError);
+      assert.equal(error.error, 403);
+      assert.lengthOf(calls, 2);
+      assert.deepEqual(sub.args, ['list1']);
+      assert.equal(sub.status, 'ready');
+    });
+
+    it('should move only one handle of a shared subscription', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spy(server);
+      const first = server.subscribe('tasks', 'list1');
+      const second = server.subscribe('tasks', 'list1');
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [first.subscriptionId]});
+      await first.ready();
+
+      const updated = second.update(['list2']);
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [calls[1][1]]});
+      await updated;
+
+      assert.deepEqual(first.args, ['list1']);
+      assert.deepEqual(second.args, ['list2']);
+      assert.isTrue(first.isReady());
+      assert.deepEqual(calls.map((call) => call[0]), ['sub', 'sub']);
+    });
+
+    it('should move listeners of the handle to the new subscription', async function () {
+      const server = new simpleDDP(opts);
+      const calls = spy(server);
+      const first = server.subscribe('tasks', 'list1');
+      const second = server.subscribe('tasks', 'list1');
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [first.subscriptionId]});
+      await first.ready();
+      const events = [];
+      second.onStatusChange((status) => events.push(status));
+      const readyListener = second.onReady(() => events.push('onReady'));
+      second.onNosub(() => events.push('onNosub'));
+      events.length = 0;
+
+      const updated = second.update(['list2']);
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [calls[1][1]]});
+      await updated;
+      assert.deepEqual(events, ['ready', 'onReady']);
+
+      // the old subscription is not the subscription of the handle anymore
+      first.subscription.restart();
+      server.ddpConnection.emit('nosub', {msg: 'nosub', id: first.subscriptionId});
+      await tick();
+      assert.deepEqual(events, ['ready', 'onReady']);
+
+      readyListener.stop();
+      second.subscription.restart();
+      server.ddpConnection.emit('nosub', {msg: 'nosub', id: second.subscriptionId});
+      await tick();
+      server.ddpConnection.emit('ready', {msg: 'ready', subs: [second.subscriptionId]});
+      await second.ready();
+      assert.deepEqual(events.slice(2), ['restarting', 'onNosub', 'ready']);
+    });
+
+  });
+
+});
@@ -0,0 +1,101 @@
+const assert = require('chai').assert;
+
+const simpleDDP = require('../lib/simpleddp');
+const { fakeSocket } = require('./helpers/fakeSocket');
+
+let serverVersions = ['1'];
+
+// server which speaks only `serverVersions`
+const FakeSocket = fakeSocket({
+  connect: (message, socket) => {
+    if (serverVersions.includes(message.version)) {
+      socket.reply({msg: 'connected', session: 'session'});
+    } else {
+      socket.reply({msg: 'failed', version: serverVersions[0]});
+    }
+  },
+  method: (message, socket) => socket.reply({msg: 'result', id: message.id, result: message.method})
+});
+
+const connects = () => FakeSocket.sent.filter((m) => m.msg == 'connect');
+
+const opts = {
+    endpoint: "ws://someserver.com/websocket",
+    SocketConstructor: FakeSocket,
+    autoConnect: false
+};
+
+describe('simpleDDP', function(){
+
+  describe('#ddpVersion', function (){
+
+    beforeEach(function() {
+      FakeSocket.sent = [];
+    });
+
+    it('should propose the preferred version with the support list', async function () {
+      serverVersions = ['1'];
+      const server = new simpleDDP(opts);
+
+      await server.connect();
+
+      assert.deepEqual(connects()[0], {msg: 'connect', version: '1', support: ['1', 'pre2', 'pre1']});
+      assert.equal(server.ddpVersion, '1');
+      await server.disconnect();
+      assert.isNull(server.ddpVersion);
+    });
+
+    it('should retry with the version suggested by the server', async function () {
+      serverVersions = ['pre2'];
+      const server = new simpleDDP(opts);
+
+      await server.connect();
+
+      assert.deepEqual(connects().map((m) => m.version), ['1', 'pre2']);
+      assert.equal(server.ddpVersion, 'pre2');
+      await server.disconnect();
+    });
+
+    it('should keep queued calls while retrying with another version', async function () {
+      serverVersions = ['pre2'];
+      const server = new simpleDDP(Object.assign({}, opts, {cleanQueue: true}));
+      const call = server.call('addTask');
+
+      await server.connect();
+
+      assert.equal(await call, 'addTask');
+      assert.equal(server.ddpVersion, 'pre2');
+      await server.disconnect();
+    });
+
+    it('should fail queued calls when there is no common version', async function () {
+      serverVersions = ['2'];
+      const server = new simpleDDP(Object.assign({}, opts, {ddpSupport: ['1']}));
+      const call = server.call('addTask');
+
+      server.connect().catch(() => {
+      });
+      const error = await call.catch((e) => e);
+
+      assert.equal(error.serverVersion, '2');
+      assert.lengthOf(server.ddpConnection.messageQueue.toArray(), 0);
+    });
+
+    it('should emit versionMismatch when there is no common version', function (done) {
+      serverVersions = ['2'];
+      const server = new simpleDDP(Object.assign({}, opts, {ddpSupport: ['1']}));
+
+      server.on('versionMismatch', (e) => {
+        assert.equal(e.serverVersion, '2');
+        assert.deepEqual(e.supportedVersions, ['1']);
+        assert.isNull(server.ddpVersion);
+        assert.isFalse(server.tryingToConnect);
+        done();
+      });
+
+      server.connect();
+    });
+
+  });
+
+});